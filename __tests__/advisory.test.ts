@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { evaluateSecurity, parseAdvisoryIds } from '../src/advisory.ts'
+import { defaultConfig, type SecurityConfig } from '../src/config.ts'
+
+// Test suite for extracting advisory IDs
+describe('parseAdvisoryIds', () => {
+    it('should extract GHSA and CVE IDs without duplicates', () => {
+        expect(parseAdvisoryIds(['Bump lodash', 'Fixes ghsa-29MW-wpgm-hmr9 (cve-2021-23337) and GHSA-29mw-wpgm-hmr9.', null])).toEqual([
+            'GHSA-29mw-wpgm-hmr9',
+            'CVE-2021-23337'
+        ])
+        expect(parseAdvisoryIds(['Bump lodash from 4.17.20 to 4.17.21', undefined])).toEqual([])
+    })
+})
+
+// Test suite for recognizing security updates
+describe('evaluateSecurity', () => {
+    let mockOctokit: any
+    const log = { warn: vi.fn() } as any
+    const config: SecurityConfig = { ...defaultConfig.security, update_types: ['patch', 'minor', 'major'] }
+    const updates = [{ name: 'lodash', from: '4.17.20', to: '4.17.21' }]
+    const advisory = {
+        ghsa_id: 'GHSA-29mw-wpgm-hmr9',
+        cve_id: 'CVE-2021-23337',
+        severity: 'high',
+        summary: 'Command Injection in lodash',
+        vulnerabilities: [{ package: { ecosystem: 'npm', name: 'lodash' }, vulnerable_version_range: '< 4.17.21', first_patched_version: '4.17.21' }]
+    }
+
+    beforeEach(() => {
+        mockOctokit = {
+            rest: {
+                securityAdvisories: {
+                    getGlobalAdvisory: vi.fn().mockResolvedValue({ data: advisory }),
+                    listGlobalAdvisories: vi.fn().mockResolvedValue({ data: [advisory] })
+                }
+            }
+        }
+    })
+
+    it('should apply the security policy to an advisory the update fixes', async () => {
+        expect(await evaluateSecurity(mockOctokit, log, config, ['Fixes CVE-2021-23337'], updates)).toEqual({
+            applies: true,
+            advisories: [
+                {
+                    ghsaId: 'GHSA-29mw-wpgm-hmr9',
+                    cveId: 'CVE-2021-23337',
+                    severity: 'high',
+                    summary: 'Command Injection in lodash',
+                    packages: ['lodash']
+                }
+            ],
+            reason: 'Security update fixing GHSA-29mw-wpgm-hmr9 of high severity'
+        })
+        expect(mockOctokit.rest.securityAdvisories.listGlobalAdvisories).toHaveBeenCalledWith({ cve_id: 'CVE-2021-23337', per_page: 1 })
+    })
+
+    it('should look up an advisory referenced by both IDs once', async () => {
+        await evaluateSecurity(mockOctokit, log, config, ['GHSA-29mw-wpgm-hmr9 / CVE-2021-23337'], updates)
+
+        expect(mockOctokit.rest.securityAdvisories.getGlobalAdvisory).toHaveBeenCalledTimes(1)
+        expect(mockOctokit.rest.securityAdvisories.listGlobalAdvisories).not.toHaveBeenCalled()
+    })
+
+    it('should not look up advisories if the security policy is the regular policy', async () => {
+        expect(await evaluateSecurity(mockOctokit, log, defaultConfig.security, ['GHSA-29mw-wpgm-hmr9'], updates)).toEqual({
+            applies: false,
+            advisories: []
+        })
+        expect(mockOctokit.rest.securityAdvisories.getGlobalAdvisory).not.toHaveBeenCalled()
+    })
+
+    it('should not apply below the minimum severity', async () => {
+        const security = await evaluateSecurity(mockOctokit, log, { ...config, min_severity: 'critical' }, ['GHSA-29mw-wpgm-hmr9'], updates)
+
+        expect(security).toMatchObject({ applies: false, reason: 'Fixes GHSA-29mw-wpgm-hmr9 of high severity, below the minimum of critical' })
+    })
+
+    it('should ignore advisories of other packages and unknown advisories', async () => {
+        mockOctokit.rest.securityAdvisories.getGlobalAdvisory
+            .mockResolvedValueOnce({
+                data: { ...advisory, vulnerabilities: [{ ...advisory.vulnerabilities[0], package: { ecosystem: 'npm', name: 'underscore' } }] }
+            })
+            .mockRejectedValueOnce(Object.assign(new Error('Not Found'), { status: 404 }))
+
+        expect(await evaluateSecurity(mockOctokit, log, config, ['GHSA-29mw-wpgm-hmr9 GHSA-xxxx-xxxx-xxxx'], updates)).toEqual({
+            applies: false,
+            advisories: []
+        })
+    })
+
+    it('should ignore advisories the update does not fix', async () => {
+        const vulnerability = advisory.vulnerabilities[0]
+
+        // The version updated from is not vulnerable
+        mockOctokit.rest.securityAdvisories.getGlobalAdvisory.mockResolvedValueOnce({
+            data: {
+                ...advisory,
+                vulnerabilities: [{ ...vulnerability, vulnerable_version_range: '>= 4.0.0, < 4.17.20', first_patched_version: '4.17.20' }]
+            }
+        })
+        expect((await evaluateSecurity(mockOctokit, log, config, ['GHSA-29mw-wpgm-hmr9'], updates)).advisories).toEqual([])
+
+        // The version updated to is still vulnerable
+        mockOctokit.rest.securityAdvisories.getGlobalAdvisory.mockResolvedValueOnce({
+            data: { ...advisory, vulnerabilities: [{ ...vulnerability, vulnerable_version_range: '<= 4.17.21', first_patched_version: '4.17.22' }] }
+        })
+        expect((await evaluateSecurity(mockOctokit, log, config, ['GHSA-29mw-wpgm-hmr9'], updates)).advisories).toEqual([])
+
+        // The vulnerability has no patch
+        mockOctokit.rest.securityAdvisories.getGlobalAdvisory.mockResolvedValueOnce({
+            data: { ...advisory, vulnerabilities: [{ ...vulnerability, first_patched_version: null }] }
+        })
+        expect((await evaluateSecurity(mockOctokit, log, config, ['GHSA-29mw-wpgm-hmr9'], updates)).advisories).toEqual([])
+    })
+
+    it('should match bounded ranges', async () => {
+        mockOctokit.rest.securityAdvisories.getGlobalAdvisory.mockResolvedValue({
+            data: { ...advisory, vulnerabilities: [{ ...advisory.vulnerabilities[0], vulnerable_version_range: '>= 4.0.0, < 4.17.21' }] }
+        })
+
+        expect((await evaluateSecurity(mockOctokit, log, config, ['GHSA-29mw-wpgm-hmr9'], updates)).applies).toBe(true)
+    })
+
+    it('should treat failed lookups like unknown advisories', async () => {
+        mockOctokit.rest.securityAdvisories.getGlobalAdvisory
+            .mockRejectedValueOnce(Object.assign(new Error('Forbidden'), { status: 403 }))
+            .mockRejectedValueOnce(Object.assign(new Error('Server Error'), { status: 502 }))
+
+        expect(await evaluateSecurity(mockOctokit, log, config, ['GHSA-29mw-wpgm-hmr9 GHSA-xxxx-xxxx-xxxx'], updates)).toEqual({
+            applies: false,
+            advisories: []
+        })
+        expect(log.warn).toHaveBeenCalledTimes(2)
+    })
+})
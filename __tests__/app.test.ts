@@ -1,5 +1,32 @@
-import { beforeEach, describe, expect, it, vi } from 'vitest'
-import { appFn, dependabotUserId, stewardUserId } from '../src/app.ts'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { appFn, evaluatePullRequest, parseMergeGroupPullNumber } from '../src/app.ts'
+
+const dependabotUser = { login: 'dependabot[bot]', type: 'Bot' } // Dependabot's bot user
+const stewardUser = { login: 'dependabot-steward[bot]', type: 'Bot' } // The steward's bot user
+
+// Details of the open same-repository Dependabot PR used by default
+const pullRequestData = {
+    number: 1,
+    state: 'open',
+    merged: false,
+    node_id: 'PR_test',
+    user: {
+        ...dependabotUser
+    },
+    base: {
+        ref: 'main',
+        repo: {
+            id: 1
+        }
+    },
+    head: {
+        ref: 'dependabot/npm_and_yarn/test/test-package-1.0.0',
+        sha: 'test-sha',
+        repo: {
+            id: 1
+        }
+    }
+}
 
 // Main test suite for the Dependabot Steward Probot app
 describe('Dependabot Steward', () => {
@@ -27,23 +54,57 @@ describe('Dependabot Steward', () => {
                         }
                     }),
                     // Mock branch protection rules, no required checks by default
-                    getBranchRules: vi.fn().mockResolvedValue({ data: [] })
+                    getBranchRules: vi.fn().mockResolvedValue({ data: [] }),
+                    // Mock the rulesets of the branch rules, which the steward may not bypass by default
+                    getRepoRuleset: vi.fn().mockResolvedValue({ data: { current_user_can_bypass: 'never' } }),
+                    // Mock commit statuses, no statuses by default
+                    getCombinedStatusForRef: vi.fn().mockResolvedValue({ data: { state: 'pending', statuses: [] } }),
+                    // Mock the pull requests of a commit, the open test PR by default
+                    listPullRequestsAssociatedWithCommit: vi.fn().mockResolvedValue({
+                        data: [
+                            {
+                                number: 1,
+                                state: 'open',
+                                base: { ref: 'main', repo: { id: 1 } },
+                                head: { ref: 'dependabot/npm_and_yarn/test/test-package-1.0.0', sha: 'test-sha', repo: { id: 1 } }
+                            }
+                        ]
+                    })
                 },
                 pulls: {
                     // Mock pull request reviews, no reviews by default
                     listReviews: vi.fn().mockResolvedValue({ data: [] }),
-                    // Mock pull request details, not merged and from Dependabot by default
+                    // Mock pull request details, open, not merged and from Dependabot by default
                     get: vi.fn().mockResolvedValue({
-                        data: {
-                            merged: false,
-                            user: {
-                                id: dependabotUserId
+                        data: pullRequestData
+                    }),
+                    // Mock pull request commits, a patch update of test-package by default
+                    listCommits: vi.fn().mockResolvedValue({
+                        data: [
+                            {
+                                commit: {
+                                    message: [
+                                        'Bump test-package from 1.0.0 to 1.0.1',
+                                        '',
+                                        '---',
+                                        'updated-dependencies:',
+                                        '- dependency-name: test-package',
+                                        '  dependency-version: 1.0.1',
+                                        '  dependency-type: direct:production',
+                                        '  update-type: version-update:semver-patch',
+                                        '...'
+                                    ].join('\n')
+                                }
                             }
-                        }
+                        ]
                     }),
                     createReview: vi.fn().mockResolvedValue({}), // Mock PR approval
                     merge: vi.fn().mockResolvedValue({}) // Mock PR merge
                 },
+                apps: {
+                    // Mock the authenticated app, whose bot user is the steward
+                    getAuthenticated: vi.fn().mockResolvedValue({ data: { slug: 'dependabot-steward' } })
+                },
                 checks: {
                     // Mock check suites, no check suites by default
                     listSuitesForRef: vi.fn().mockResolvedValue({
@@ -51,13 +112,80 @@ describe('Dependabot Steward', () => {
                             total_count: 0,
                             check_suites: []
                         }
-                    })
+                    }),
+                    // Mock the check runs of a check suite, none by default
+                    listForSuite: vi.fn().mockResolvedValue({ data: { total_count: 0, check_runs: [] } }),
+                    // Mock the steward's own check runs, none by default
+                    listForRef: vi.fn().mockResolvedValue({ data: { total_count: 0, check_runs: [] } }),
+                    create: vi.fn().mockResolvedValue({}), // Mock check run creation
+                    update: vi.fn().mockResolvedValue({}) // Mock check run update
                 }
             },
-            request: vi.fn().mockResolvedValue({ data: { check_runs: [] } }) // Mock check runs
+            config: {
+                // Mock .steward.yml, no configuration file by default
+                get: vi.fn().mockResolvedValue({ config: {}, files: [] })
+            },
+            // Mock pagination with a single page, unwrapping the check runs like Octokit does
+            paginate: vi.fn(async (method, params) => {
+                const data = (await method(params)).data
+                return data.check_runs ?? data
+            }),
+            graphql: vi.fn().mockResolvedValue({}), // Mock GraphQL mutations
+            // Mock the server metadata of github.com, which has no version
+            request: Object.assign(vi.fn().mockResolvedValue({ data: {} }), { endpoint: { DEFAULTS: { baseUrl: 'https://api.github.com' } } })
+        }
+        mockOctokit.rest.issues = {
+            // Mock issue comments, no comments by default
+            listComments: vi.fn().mockResolvedValue({ data: [] }),
+            createComment: vi.fn().mockResolvedValue({}),
+            updateComment: vi.fn().mockResolvedValue({})
         }
     })
 
+    // Finds the handler registered for an event
+    function handlerFor(event: string) {
+        const app = { on: vi.fn(), log: console }
+        appFn(app as any)
+        return app.on.mock.calls.find(c => [c[0]].flat().includes(event))?.[1]
+    }
+
+    // Creates a mock context for a 'check_suite.completed' event of a same-repository Dependabot PR
+    function createContext(headRef = 'dependabot/npm_and_yarn/test/test-package-1.0.0') {
+        return {
+            payload: {
+                repository: {
+                    owner: {
+                        login: 'test-owner'
+                    },
+                    name: 'test-repo'
+                },
+                check_suite: {
+                    conclusion: 'success',
+                    pull_requests: [
+                        {
+                            number: 1,
+                            base: {
+                                ref: 'main',
+                                repo: {
+                                    id: 1
+                                }
+                            },
+                            head: {
+                                ref: headRef,
+                                sha: 'test-sha',
+                                repo: {
+                                    id: 1
+                                }
+                            }
+                        }
+                    ]
+                }
+            },
+            octokit: mockOctokit,
+            log: console
+        }
+    }
+
     // Test suite for 'check_suite.completed' events
     describe('when a check suite has completed', () => {
         // Test case: PR should merge if all conditions are met
@@ -122,14 +250,16 @@ describe('Dependabot Steward', () => {
             })
         })
 
-        // Test case: PR should not merge if not from Dependabot
-        it('should not merge a pull request if it is not from Dependabot', async () => {
+        // Test case: PR should not merge if not from a dependency bot
+        it('should not merge a pull request if it is not from a dependency bot', async () => {
             // Override mock to simulate a PR from a non-Dependabot user
             mockOctokit.rest.pulls.get.mockResolvedValue({
                 data: {
+                    ...pullRequestData,
                     merged: false,
                     user: {
-                        id: 12345 // Non-Dependabot user ID
+                        login: 'octocat', // Non-Dependabot user
+                        type: 'User'
                     }
                 }
             })
@@ -183,6 +313,19 @@ describe('Dependabot Steward', () => {
 
         // Test case: PR should not merge if it's from a forked repository
         it('should not merge a pull request if it is from a fork', async () => {
+            // Override mock to simulate a PR from a fork
+            mockOctokit.rest.pulls.get.mockResolvedValue({
+                data: {
+                    ...pullRequestData,
+                    head: {
+                        ...pullRequestData.head,
+                        repo: {
+                            id: 2 // Different repo ID for head, indicating a fork
+                        }
+                    }
+                }
+            })
+
             // Define event payload simulating a PR from a fork
             const event = {
                 name: 'check_suite.completed',
@@ -236,9 +379,10 @@ describe('Dependabot Steward', () => {
             // Override mock to simulate an already merged PR
             mockOctokit.rest.pulls.get.mockResolvedValue({
                 data: {
+                    ...pullRequestData,
                     merged: true, // PR is already merged
                     user: {
-                        id: dependabotUserId
+                        ...dependabotUser
                     }
                 }
             })
@@ -297,7 +441,7 @@ describe('Dependabot Steward', () => {
                 data: [
                     {
                         user: {
-                            id: stewardUserId // Steward user ID
+                            ...stewardUser // Steward user
                         }
                     }
                 ]
@@ -609,4 +753,1211 @@ describe('Dependabot Steward', () => {
             expect(mockOctokit.rest.pulls.merge).toHaveBeenCalled()
         })
     })
+
+    // Test suite for the .steward.yml configuration file
+    describe('when the repository has a .steward.yml file', () => {
+        // Test case: PR should not merge if the app is disabled
+        it('should not merge a pull request if the app is disabled', async () => {
+            mockOctokit.config.get.mockResolvedValue({ config: { enabled: false }, files: [] })
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.pulls.createReview).not.toHaveBeenCalled()
+            expect(mockOctokit.rest.pulls.merge).not.toHaveBeenCalled()
+        })
+
+        // Test case: PR should not merge if its ecosystem is not allowed
+        it('should not merge a pull request if its ecosystem is not allowed', async () => {
+            mockOctokit.config.get.mockResolvedValue({ config: { ecosystems: ['github-actions'] }, files: [] })
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.pulls.merge).not.toHaveBeenCalled()
+        })
+
+        // Test case: PR should merge if its ecosystem is allowed under its dependabot.yml name
+        it('should merge a pull request if its ecosystem is allowed', async () => {
+            mockOctokit.config.get.mockResolvedValue({ config: { ecosystems: ['npm'] }, files: [] })
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.pulls.merge).toHaveBeenCalled()
+        })
+
+        // Test case: the configured merge method should be used if the repository allows it
+        it('should use the configured merge method', async () => {
+            mockOctokit.config.get.mockResolvedValue({ config: { merge_method: 'squash' }, files: [] })
+            mockOctokit.rest.repos.get.mockResolvedValue({ data: { allow_merge_commit: true, allow_squash_merge: true } })
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.pulls.merge).toHaveBeenCalledWith(expect.objectContaining({ merge_method: 'squash' }))
+        })
+
+        // Test case: an invalid configuration should be reported on the PR
+        it('should comment on the pull request if the configuration is invalid', async () => {
+            mockOctokit.config.get.mockResolvedValue({ config: { enabled: 'yes' }, files: [] })
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledWith(
+                expect.objectContaining({ issue_number: 1, body: expect.stringContaining('`enabled` must be `true` or `false`.') })
+            )
+            expect(mockOctokit.rest.pulls.merge).not.toHaveBeenCalled()
+        })
+
+        // Test case: an existing comment should be updated instead of adding another one
+        it('should update its existing comment if the configuration is still invalid', async () => {
+            mockOctokit.config.get.mockRejectedValue(new Error('Configuration could not be parsed (invalid YAML)'))
+            mockOctokit.rest.issues.listComments.mockResolvedValue({ data: [{ id: 42, body: '<!-- dependabot-steward -->\nOld' }] })
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled()
+            expect(mockOctokit.rest.issues.updateComment).toHaveBeenCalledWith(expect.objectContaining({ comment_id: 42 }))
+            expect(mockOctokit.rest.pulls.merge).not.toHaveBeenCalled()
+        })
+    })
+
+    // Test suite for the semver-aware merge policy
+    describe('when applying the merge policy', () => {
+        // Creates the commits of a Dependabot PR with the given update type
+        function commitsWithUpdateType(updateType: string) {
+            return {
+                data: [
+                    {
+                        commit: {
+                            message: `Bump test-package from 1.0.0 to 2.0.0\n\n---\nupdated-dependencies:\n- dependency-name: test-package\n  update-type: version-update:semver-${updateType}\n...`
+                        }
+                    }
+                ]
+            }
+        }
+
+        // Test case: major updates should not merge by default
+        it('should not merge a major update by default', async () => {
+            mockOctokit.rest.pulls.listCommits.mockResolvedValue(commitsWithUpdateType('major'))
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.pulls.createReview).not.toHaveBeenCalled()
+            expect(mockOctokit.rest.pulls.merge).not.toHaveBeenCalled()
+        })
+
+        // Test case: major updates should merge if the repository allows them
+        it('should merge a major update if allowed by the configuration', async () => {
+            mockOctokit.rest.pulls.listCommits.mockResolvedValue(commitsWithUpdateType('major'))
+            mockOctokit.config.get.mockResolvedValue({ config: { update_types: ['patch', 'minor', 'major'] }, files: [] })
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.pulls.merge).toHaveBeenCalled()
+        })
+
+        // Test case: PRs whose dependencies cannot be determined should not merge
+        it('should not merge a pull request without update metadata', async () => {
+            mockOctokit.rest.pulls.listCommits.mockResolvedValue({ data: [{ commit: { message: 'Some change' } }] })
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.pulls.merge).not.toHaveBeenCalled()
+        })
+    })
+
+    // Test suite for the per-dependency rules
+    describe('when applying dependency rules', () => {
+        // Test case: a deny rule should block the merge and be explained on the PR
+        it('should not merge a pull request denied by a rule and report the reason', async () => {
+            mockOctokit.config.get.mockResolvedValue({
+                config: { rules: [{ dependency: 'test-*', action: 'deny', reason: 'Pinned for now' }] },
+                files: []
+            })
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.pulls.merge).not.toHaveBeenCalled()
+            expect(mockOctokit.rest.checks.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    output: expect.objectContaining({ summary: expect.stringContaining('denied by rule #1 (deny test-*): Pinned for now') })
+                })
+            )
+        })
+    })
+
+    // Test suite for grouped Dependabot updates
+    describe('when the pull request is a grouped update', () => {
+        // Test case: a grouped update should only merge if every member is allowed
+        it('should not merge a grouped update with a blocked member and list it', async () => {
+            mockOctokit.rest.pulls.get.mockResolvedValue({
+                data: {
+                    ...pullRequestData,
+                    merged: false,
+                    title: 'Bump the test group with 2 updates',
+                    body: 'Updates `test-package` from 1.0.0 to 1.0.1\n\nUpdates `other-package` from 1.0.0 to 2.0.0',
+                    user: {
+                        ...dependabotUser
+                    }
+                }
+            })
+            mockOctokit.rest.pulls.listCommits.mockResolvedValue({ data: [{ commit: { message: 'Bump the test group with 2 updates' } }] })
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.pulls.merge).not.toHaveBeenCalled()
+            expect(mockOctokit.rest.checks.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    output: expect.objectContaining({
+                        summary: expect.stringContaining('1 of 2 updated dependencies are not allowed (other-package)')
+                    })
+                })
+            )
+        })
+    })
+
+    // Test suite for the merge method selection
+    describe('when merging the pull request', () => {
+        // Test case: a method rejected with 405 should fall back to the next allowed one
+        it('should retry with the next allowed merge method if one is rejected', async () => {
+            mockOctokit.config.get.mockResolvedValue({ config: { merge_method: ['rebase', 'squash'] }, files: [] })
+            mockOctokit.rest.repos.get.mockResolvedValue({ data: { allow_merge_commit: true, allow_squash_merge: true, allow_rebase_merge: true } })
+            mockOctokit.rest.pulls.merge.mockRejectedValueOnce(Object.assign(new Error('Rebase merges are not allowed'), { status: 405 }))
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.pulls.merge).toHaveBeenCalledTimes(2)
+            expect(mockOctokit.rest.pulls.merge).toHaveBeenNthCalledWith(1, expect.objectContaining({ merge_method: 'rebase' }))
+            expect(mockOctokit.rest.pulls.merge).toHaveBeenNthCalledWith(2, expect.objectContaining({ merge_method: 'squash' }))
+        })
+
+        // Test case: other errors should not be retried
+        it('should not retry if the merge fails for another reason', async () => {
+            mockOctokit.rest.repos.get.mockResolvedValue({ data: { allow_merge_commit: true, allow_squash_merge: true } })
+            mockOctokit.rest.pulls.merge.mockRejectedValueOnce(Object.assign(new Error('Conflict'), { status: 409 }))
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.pulls.merge).toHaveBeenCalledTimes(1)
+        })
+
+        // Test case: squash merges should use the commit templates
+        it('should render the commit templates for squash merges', async () => {
+            mockOctokit.config.get.mockResolvedValue({
+                config: { merge_method: 'squash', commit_title: 'Bump {dependency} to {to} (#{pr_number})', commit_message: 'From {from}' },
+                files: []
+            })
+            mockOctokit.rest.repos.get.mockResolvedValue({ data: { allow_squash_merge: true } })
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.pulls.merge).toHaveBeenCalledWith({
+                owner: 'test-owner',
+                repo: 'test-repo',
+                pull_number: 1,
+                merge_method: 'squash',
+                commit_title: 'Bump test-package to 1.0.1 (#1)',
+                commit_message: 'From ?'
+            })
+        })
+    })
+
+    // Test suite for the native auto-merge mode
+    describe('when the repository uses auto-merge mode', () => {
+        beforeEach(() => {
+            mockOctokit.config.get.mockResolvedValue({ config: { mode: 'auto_merge' }, files: [] })
+            mockOctokit.rest.repos.get.mockResolvedValue({ data: { allow_merge_commit: true, allow_auto_merge: true } })
+        })
+
+        // Test case: auto-merge should be enabled without waiting for the checks
+        it('should approve the pull request and enable auto-merge', async () => {
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.pulls.createReview).toHaveBeenCalled()
+            expect(mockOctokit.graphql).toHaveBeenCalledWith(expect.stringContaining('enablePullRequestAutoMerge'), {
+                pullRequestId: 'PR_test',
+                mergeMethod: 'MERGE'
+            })
+            expect(mockOctokit.rest.checks.listSuitesForRef).not.toHaveBeenCalled()
+            expect(mockOctokit.rest.pulls.merge).not.toHaveBeenCalled()
+        })
+
+        // Test case: an already mergeable PR should be merged directly
+        it('should merge the pull request directly if it is already mergeable', async () => {
+            mockOctokit.graphql.mockRejectedValue(new Error('Pull request Pull request is in clean status'))
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.pulls.merge).toHaveBeenCalled()
+        })
+
+        // Test case: without auto-merge in the repository, the checks should be evaluated as usual
+        it('should fall back to merging after the checks if auto-merge is not allowed', async () => {
+            mockOctokit.rest.repos.get.mockResolvedValue({ data: { allow_merge_commit: true, allow_auto_merge: false } })
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.graphql).not.toHaveBeenCalled()
+            expect(mockOctokit.rest.checks.listSuitesForRef).toHaveBeenCalled()
+            expect(mockOctokit.rest.pulls.merge).toHaveBeenCalled()
+        })
+    })
+
+    // Test suite for the branch rules of the base branch
+    describe('when the base branch has rules beyond required checks', () => {
+        // Test case: a rule the app can't satisfy should skip the PR before approving it
+        it('should not merge a pull request if a branch rule cannot be satisfied', async () => {
+            mockOctokit.rest.repos.getBranchRules.mockResolvedValue({ data: [{ type: 'update', ruleset_id: 1 }] })
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.pulls.createReview).not.toHaveBeenCalled()
+            expect(mockOctokit.rest.pulls.merge).not.toHaveBeenCalled()
+            expect(mockOctokit.rest.checks.create.mock.calls[0][0].output.summary).toContain(
+                '**Unsatisfiable branch rules:**\n- Only allows bypass actors to update the branch'
+            )
+        })
+
+        // Test case: linear history should rule out merge commits
+        it('should choose a merge method compatible with the branch rules', async () => {
+            mockOctokit.rest.repos.get.mockResolvedValue({ data: { allow_merge_commit: true, allow_squash_merge: true } })
+            mockOctokit.rest.repos.getBranchRules.mockResolvedValue({ data: [{ type: 'required_linear_history' }] })
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.pulls.merge).toHaveBeenCalledTimes(1)
+            expect(mockOctokit.rest.pulls.merge).toHaveBeenCalledWith(expect.objectContaining({ merge_method: 'squash' }))
+        })
+
+        // Test case: a missing human approval should be waited for
+        it('should wait for the approvals required by the branch rules', async () => {
+            mockOctokit.rest.repos.getBranchRules.mockResolvedValue({
+                data: [{ type: 'pull_request', parameters: { required_approving_review_count: 2, require_code_owner_review: false } }]
+            })
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.pulls.merge).not.toHaveBeenCalled()
+
+            mockOctokit.rest.pulls.listReviews.mockResolvedValue({ data: [{ user: { login: 'octocat', type: 'User' }, state: 'APPROVED' }] })
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.pulls.merge).toHaveBeenCalled()
+        })
+    })
+
+    // Test suite for GitHub Enterprise Server versions without the branch rules API
+    describe('when the branch rules API is not available', () => {
+        // Test case: classic branch protection should be evaluated instead
+        it('should evaluate the classic branch protection instead', async () => {
+            mockOctokit.request = Object.assign(vi.fn().mockResolvedValue({ data: { installed_version: '3.9.4' } }), {
+                endpoint: { DEFAULTS: { baseUrl: 'https://github.example.com/api/v3' } }
+            })
+            mockOctokit.rest.repos.getBranchProtection = vi.fn().mockResolvedValue({
+                data: { required_status_checks: { strict: false, contexts: ['test-check'], checks: [{ context: 'test-check', app_id: null }] } }
+            })
+            mockOctokit.rest.checks.listSuitesForRef.mockResolvedValue({
+                data: { total_count: 1, check_suites: [{ id: 1, status: 'in_progress', latest_check_runs_count: 1 }] }
+            })
+
+            const evaluation = await evaluatePullRequest(createContext() as any, 'test-owner', 'test-repo', 1)
+
+            expect(evaluation.outcome).toBe('skipped')
+            expect(evaluation.branchRules?.requiredChecks).toEqual([{ context: 'test-check' }])
+            expect(mockOctokit.rest.repos.getBranchProtection).toHaveBeenCalledWith({ owner: 'test-owner', repo: 'test-repo', branch: 'main' })
+            expect(mockOctokit.rest.repos.getBranchRules).not.toHaveBeenCalled()
+        })
+    })
+
+    // Test suite for repositories with a merge queue
+    describe('when the base branch requires a merge queue', () => {
+        beforeEach(() => {
+            mockOctokit.rest.repos.getBranchRules.mockResolvedValue({ data: [{ type: 'merge_queue', ruleset_id: 1 }] })
+            // Mock the mutations supported by the server and the merge queue entry
+            mockOctokit.graphql.mockImplementation(async (query: string) =>
+                query.includes('__type')
+                    ? { __type: { fields: [{ name: 'enqueuePullRequest' }] } }
+                    : { enqueuePullRequest: { mergeQueueEntry: { position: 1 } } }
+            )
+        })
+
+        // Creates a mock context for a 'merge_group.destroyed' event of the test PR
+        function createMergeGroupContext(reason: string) {
+            return {
+                payload: {
+                    reason,
+                    repository: { owner: { login: 'test-owner' }, name: 'test-repo' },
+                    merge_group: { head_ref: 'refs/heads/gh-readonly-queue/main/pr-1-0123456789abcdef', head_sha: 'group-sha' }
+                },
+                octokit: mockOctokit,
+                log: console
+            }
+        }
+
+        // Test case: the PR should be enqueued instead of merged
+        it('should add the pull request to the merge queue instead of merging it', async () => {
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.pulls.createReview).toHaveBeenCalled()
+            expect(mockOctokit.graphql).toHaveBeenCalledWith(expect.stringContaining('enqueuePullRequest'), {
+                pullRequestId: 'PR_test',
+                expectedHeadOid: 'test-sha'
+            })
+            expect(mockOctokit.rest.pulls.merge).not.toHaveBeenCalled()
+            expect(mockOctokit.rest.checks.create).toHaveBeenCalledWith(
+                expect.objectContaining({ conclusion: 'success', output: expect.objectContaining({ title: 'Queued: Added to the merge queue' }) })
+            )
+        })
+
+        // Test case: the required checks should pass before the PR is enqueued
+        it('should not add the pull request to the merge queue before the required checks have passed', async () => {
+            mockOctokit.rest.checks.listSuitesForRef.mockResolvedValue({
+                data: { total_count: 1, check_suites: [{ id: 1, status: 'in_progress', latest_check_runs_count: 1 }] }
+            })
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.graphql).not.toHaveBeenCalledWith(expect.stringContaining('enqueuePullRequest'), expect.anything())
+        })
+
+        // Test case: a server without the merge queue API should skip the PR before approving it
+        it('should not approve a pull request if the server does not support the merge queue', async () => {
+            mockOctokit.graphql.mockResolvedValue({ __type: { fields: [{ name: 'mergePullRequest' }] } })
+
+            const evaluation = await evaluatePullRequest(createContext() as any, 'test-owner', 'test-repo', 1)
+
+            expect(evaluation).toMatchObject({ outcome: 'skipped', reason: 'The merge queue is not supported by the GitHub server' })
+            expect(mockOctokit.rest.pulls.createReview).not.toHaveBeenCalled()
+        })
+
+        // Test case: a merged merge group should be reported as merged
+        it('should report that a queued pull request landed', async () => {
+            mockOctokit.rest.pulls.listReviews.mockResolvedValue({ data: [{ user: stewardUser }] })
+
+            await handlerFor('merge_group.destroyed')(createMergeGroupContext('merged'))
+
+            expect(mockOctokit.rest.checks.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    head_sha: 'test-sha',
+                    conclusion: 'success',
+                    output: expect.objectContaining({ title: 'Merged: Merged by the merge queue' })
+                })
+            )
+        })
+
+        // Test case: a dequeued merge group should be reported as a failure
+        it('should report that a queued pull request was removed from the merge queue', async () => {
+            mockOctokit.rest.pulls.listReviews.mockResolvedValue({ data: [{ user: stewardUser }] })
+
+            await handlerFor('merge_group.destroyed')(createMergeGroupContext('dequeued'))
+
+            expect(mockOctokit.rest.checks.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    conclusion: 'failure',
+                    output: expect.objectContaining({ title: 'Merge failed: Removed from the merge queue' })
+                })
+            )
+        })
+
+        // Test case: merge groups of PRs the steward did not queue should be ignored
+        it('should ignore merge groups of pull requests the steward did not approve', async () => {
+            await handlerFor('merge_group.destroyed')(createMergeGroupContext('merged'))
+
+            expect(mockOctokit.rest.checks.create).not.toHaveBeenCalled()
+        })
+
+        // Test case: the PR number should be parsed from the merge group ref
+        it('should parse the pull request number from the merge group ref', () => {
+            expect(parseMergeGroupPullNumber('refs/heads/gh-readonly-queue/release/1.x/pr-42-c0ffee')).toBe(42)
+            expect(parseMergeGroupPullNumber('refs/heads/main')).toBeUndefined()
+        })
+    })
+
+    // Test suite for re-running failed required checks
+    describe('when a required check has failed', () => {
+        beforeEach(() => {
+            mockOctokit.rest.checks.listSuitesForRef.mockResolvedValue({
+                data: { total_count: 1, check_suites: [{ id: 10, status: 'completed', latest_check_runs_count: 1 }] }
+            })
+            mockOctokit.rest.checks.listForSuite.mockResolvedValue({ data: { check_runs: [{ id: 1, name: 'build', conclusion: 'failure' }] } })
+            mockOctokit.rest.repos.getBranchRules.mockResolvedValue({
+                data: [{ type: 'required_status_checks', parameters: { required_status_checks: [{ context: 'build' }] } }]
+            })
+            mockOctokit.rest.checks.rerequestSuite = vi.fn().mockResolvedValue({})
+        })
+
+        // Test case: the failed check should be re-run if configured
+        it('should re-run the failed check if retries are configured', async () => {
+            mockOctokit.config.get.mockResolvedValue({ config: { retries: 1 }, files: [] })
+            mockOctokit.rest.checks.listForRef.mockImplementation(async ({ check_name }: { check_name: string }) => ({
+                data: { check_runs: check_name === 'build' ? [{ id: 1, name: 'build', check_suite: { id: 10 }, app: { slug: 'circleci' } }] : [] }
+            }))
+
+            const evaluation = await evaluatePullRequest(createContext() as any, 'test-owner', 'test-repo', 1)
+
+            expect(evaluation).toMatchObject({ outcome: 'skipped', reason: 'Re-running the failed required checks', retried: ['build'] })
+            expect(mockOctokit.rest.checks.rerequestSuite).toHaveBeenCalledWith({ owner: 'test-owner', repo: 'test-repo', check_suite_id: 10 })
+            expect(mockOctokit.rest.pulls.merge).not.toHaveBeenCalled()
+        })
+
+        // Test case: retries are opt-in
+        it('should not re-run the failed check by default', async () => {
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.checks.rerequestSuite).not.toHaveBeenCalled()
+        })
+    })
+
+    // Test suite for pull requests whose branch is out of date
+    describe('when the pull request branch is out of date', () => {
+        // Test case: a branch that is behind should be rebased instead of merged
+        it('should ask Dependabot to rebase a branch that is behind', async () => {
+            mockOctokit.rest.pulls.get.mockResolvedValue({ data: { ...pullRequestData, mergeable_state: 'behind' } })
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledWith(
+                expect.objectContaining({ body: expect.stringMatching(/^@dependabot rebase/) })
+            )
+            expect(mockOctokit.rest.pulls.createReview).not.toHaveBeenCalled()
+            expect(mockOctokit.rest.pulls.merge).not.toHaveBeenCalled()
+        })
+
+        // Test case: update mode should update the branch through the API
+        it('should update the branch if configured', async () => {
+            mockOctokit.config.get.mockResolvedValue({ config: { update_branch: 'update' }, files: [] })
+            mockOctokit.rest.pulls.get.mockResolvedValue({ data: { ...pullRequestData, mergeable_state: 'behind' } })
+            mockOctokit.rest.pulls.updateBranch = vi.fn().mockResolvedValue({})
+
+            const evaluation = await evaluatePullRequest(createContext() as any, 'test-owner', 'test-repo', 1)
+
+            expect(evaluation).toMatchObject({ outcome: 'skipped', reason: 'Pull request branch is behind the base branch, updating it' })
+            expect(mockOctokit.rest.pulls.updateBranch).toHaveBeenCalled()
+            expect(mockOctokit.rest.pulls.merge).not.toHaveBeenCalled()
+        })
+    })
+
+    // Test suite for the minimum age of pull requests
+    describe('when a cooldown is configured', () => {
+        // Test case: a young pull request should be deferred without being approved
+        it('should defer a pull request that is too young', async () => {
+            mockOctokit.config.get.mockResolvedValue({ config: { cooldown: { days: 3 } }, files: [] })
+            mockOctokit.rest.pulls.get.mockResolvedValue({ data: { ...pullRequestData, created_at: new Date().toISOString() } })
+
+            const evaluation = await evaluatePullRequest(createContext() as any, 'test-owner', 'test-repo', 1)
+
+            expect(evaluation).toMatchObject({
+                outcome: 'deferred',
+                reason: expect.stringMatching(/^Cooldown of 3 days since the pull request was opened/)
+            })
+            expect(mockOctokit.rest.checks.create).toHaveBeenCalledWith(expect.objectContaining({ conclusion: 'neutral' }))
+            expect(mockOctokit.rest.pulls.createReview).not.toHaveBeenCalled()
+            expect(mockOctokit.rest.pulls.merge).not.toHaveBeenCalled()
+        })
+
+        // Test case: an old enough pull request should be merged
+        it('should merge a pull request once the cooldown has ended', async () => {
+            mockOctokit.config.get.mockResolvedValue({ config: { cooldown: { days: 3 } }, files: [] })
+            mockOctokit.rest.pulls.get.mockResolvedValue({ data: { ...pullRequestData, created_at: '2020-01-01T00:00:00Z' } })
+
+            const evaluation = await evaluatePullRequest(createContext() as any, 'test-owner', 'test-repo', 1)
+
+            expect(evaluation.outcome).toBe('merged')
+        })
+    })
+
+    // Test suite for merge windows and freeze periods
+    describe('when a merge schedule is configured', () => {
+        // Test case: a ready pull request should be deferred during a freeze
+        it('should defer a ready pull request during a freeze period', async () => {
+            mockOctokit.config.get.mockResolvedValue({
+                config: { schedule: { freezes: [{ from: '2000-01-01', to: '2999-12-31', reason: 'Release freeze' }] } },
+                files: []
+            })
+
+            const evaluation = await evaluatePullRequest(createContext() as any, 'test-owner', 'test-repo', 1)
+
+            expect(evaluation).toMatchObject({ outcome: 'deferred', reason: 'Merges are frozen until 2999-12-31 (Release freeze)' })
+            expect(evaluation.checks?.passed).toBe(true)
+            expect(mockOctokit.rest.pulls.createReview).not.toHaveBeenCalled()
+            expect(mockOctokit.rest.pulls.merge).not.toHaveBeenCalled()
+        })
+
+        // Test case: a ready pull request should be merged within a window
+        it('should merge a ready pull request within a merge window', async () => {
+            mockOctokit.config.get.mockResolvedValue({ config: { schedule: { windows: [{ start: '00:00', end: '24:00' }] } }, files: [] })
+
+            const evaluation = await evaluatePullRequest(createContext() as any, 'test-owner', 'test-repo', 1)
+
+            expect(evaluation.outcome).toBe('merged')
+        })
+    })
+
+    // Test suite for dry-run mode
+    describe('when dry-run mode is enabled', () => {
+        afterEach(() => {
+            vi.unstubAllEnvs()
+        })
+
+        // Test case: a ready pull request should only be reported
+        it('should report what it would do instead of approving and merging', async () => {
+            mockOctokit.config.get.mockResolvedValue({ config: { dry_run: true, merge_method: 'squash' }, files: [] })
+            mockOctokit.rest.repos.get.mockResolvedValue({ data: { allow_squash_merge: true } })
+            const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+
+            const evaluation = await evaluatePullRequest({ octokit: mockOctokit, log } as any, 'test-owner', 'test-repo', 1)
+
+            expect(evaluation).toMatchObject({ outcome: 'dry_run', reason: 'Would approve and merge using squash method' })
+            expect(log.info).toHaveBeenCalledWith(
+                {
+                    dryRun: {
+                        owner: 'test-owner',
+                        repo: 'test-repo',
+                        pull_number: 1,
+                        head_sha: 'test-sha',
+                        action: 'merge',
+                        merge_method: 'squash',
+                        updates: [expect.objectContaining({ name: 'test-package', to: '1.0.1' })],
+                        advisories: []
+                    }
+                },
+                'Pull request #1: Would approve and merge using squash method (dry run).'
+            )
+            expect(mockOctokit.rest.checks.create).toHaveBeenCalledWith(expect.objectContaining({ conclusion: 'neutral' }))
+            expect(mockOctokit.rest.pulls.createReview).not.toHaveBeenCalled()
+            expect(mockOctokit.rest.pulls.merge).not.toHaveBeenCalled()
+        })
+
+        // Test case: the environment variable should enable dry-run mode for all repositories
+        it('should be enabled for all repositories by the environment', async () => {
+            vi.stubEnv('STEWARD_DRY_RUN', 'true')
+
+            const evaluation = await evaluatePullRequest(createContext() as any, 'test-owner', 'test-repo', 1)
+
+            expect(evaluation.outcome).toBe('dry_run')
+            expect(mockOctokit.rest.pulls.merge).not.toHaveBeenCalled()
+        })
+
+        // Test case: a stale branch should not be rebased
+        it('should not ask Dependabot to rebase', async () => {
+            vi.stubEnv('STEWARD_DRY_RUN', 'true')
+            mockOctokit.rest.pulls.get.mockResolvedValue({ data: { ...pullRequestData, mergeable_state: 'behind' } })
+
+            const evaluation = await evaluatePullRequest(createContext() as any, 'test-owner', 'test-repo', 1)
+
+            expect(evaluation).toMatchObject({ outcome: 'skipped', reason: 'Pull request branch is behind the base branch' })
+            expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled()
+        })
+
+        // Test case: what humans did should be recorded for comparison
+        it('should record how a human closed the pull request', async () => {
+            vi.stubEnv('STEWARD_DRY_RUN', 'true')
+            const log = { info: vi.fn(), warn: vi.fn() }
+
+            await handlerFor('pull_request.closed')({
+                payload: {
+                    repository: { owner: { login: 'test-owner' }, name: 'test-repo' },
+                    pull_request: {
+                        number: 1,
+                        merged: true,
+                        merged_by: { login: 'octocat' },
+                        user: dependabotUser,
+                        head: { sha: 'test-sha' }
+                    }
+                },
+                octokit: mockOctokit,
+                log
+            })
+
+            expect(log.info).toHaveBeenCalledWith(
+                { dryRun: { owner: 'test-owner', repo: 'test-repo', pull_number: 1, head_sha: 'test-sha', merged: true, merged_by: 'octocat' } },
+                'Pull request #1 in test-owner/test-repo was merged by octocat (dry run).'
+            )
+            expect(mockOctokit.rest.pulls.listReviews).not.toHaveBeenCalled()
+        })
+    })
+
+    // Test suite for security updates
+    describe('when the pull request is a security update', () => {
+        beforeEach(() => {
+            // A major update that fixes a high severity advisory of test-package
+            mockOctokit.rest.pulls.get.mockResolvedValue({
+                data: {
+                    ...pullRequestData,
+                    title: 'Bump test-package from 1.0.0 to 2.0.0',
+                    body: 'Bumps test-package from 1.0.0 to 2.0.0. Fixes GHSA-abcd-efgh-ijkl.',
+                    created_at: new Date().toISOString()
+                }
+            })
+            mockOctokit.rest.pulls.listCommits.mockResolvedValue({ data: [{ commit: { message: 'Bump test-package from 1.0.0 to 2.0.0' } }] })
+            mockOctokit.rest.securityAdvisories = {
+                getGlobalAdvisory: vi.fn().mockResolvedValue({
+                    data: {
+                        ghsa_id: 'GHSA-abcd-efgh-ijkl',
+                        cve_id: 'CVE-2024-12345',
+                        severity: 'high',
+                        summary: 'Prototype pollution in test-package',
+                        vulnerabilities: [
+                            {
+                                package: { ecosystem: 'npm', name: 'test-package' },
+                                vulnerable_version_range: '< 2.0.0',
+                                first_patched_version: '2.0.0'
+                            }
+                        ]
+                    }
+                })
+            }
+        })
+
+        // Test case: the security policy allows major updates and skips the cooldown
+        it('should merge a security update under the security policy', async () => {
+            mockOctokit.config.get.mockResolvedValue({
+                config: { cooldown: { days: 3 }, security: { update_types: ['patch', 'minor', 'major'], cooldown: false } },
+                files: []
+            })
+
+            const evaluation = await evaluatePullRequest(createContext() as any, 'test-owner', 'test-repo', 1)
+
+            expect(evaluation).toMatchObject({ outcome: 'merged', advisories: ['GHSA-abcd-efgh-ijkl (high): Prototype pollution in test-package'] })
+            expect(mockOctokit.rest.securityAdvisories.getGlobalAdvisory).toHaveBeenCalledWith({ ghsa_id: 'GHSA-abcd-efgh-ijkl' })
+        })
+
+        // Test case: advisories below the minimum severity are treated like routine updates
+        it('should apply the regular policy below the minimum severity', async () => {
+            mockOctokit.config.get.mockResolvedValue({
+                config: { security: { update_types: ['patch', 'minor', 'major'], min_severity: 'critical' } },
+                files: []
+            })
+
+            const evaluation = await evaluatePullRequest(createContext() as any, 'test-owner', 'test-repo', 1)
+
+            expect(evaluation).toMatchObject({ outcome: 'skipped', reason: 'test-package 1.0.0 → 2.0.0 is a major update, which is not allowed' })
+            expect(mockOctokit.rest.checks.create).toHaveBeenCalledWith(
+                expect.objectContaining({ output: expect.objectContaining({ summary: expect.stringContaining('**Security advisories:**') }) })
+            )
+        })
+
+        // Test case: security updates may be merged outside of the merge windows
+        it('should ignore the merge windows if configured', async () => {
+            mockOctokit.config.get.mockResolvedValue({
+                config: {
+                    update_types: ['major'],
+                    schedule: { windows: [{ days: ['mon'], start: '00:00', end: '00:01' }] },
+                    security: { schedule: false }
+                },
+                files: []
+            })
+
+            const evaluation = await evaluatePullRequest(createContext() as any, 'test-owner', 'test-repo', 1)
+
+            expect(evaluation.outcome).toBe('merged')
+        })
+    })
+
+    // Test suite for pull requests of other dependency bots
+    describe('when the pull request is from Renovate', () => {
+        const renovatePullRequestData = {
+            ...pullRequestData,
+            title: 'Update dependency test-package to v1.0.1',
+            body: [
+                '| Package | Change | Age |',
+                '|---|---|---|',
+                '| [test-package](https://example.com) | [`1.0.0` -> `1.0.1`](https://renovatebot.com/diffs/npm/test-package/1.0.0/1.0.1) | |'
+            ].join('\n'),
+            user: { login: 'renovate[bot]', type: 'Bot' },
+            head: { ...pullRequestData.head, ref: 'renovate/test-package-1.x' }
+        }
+
+        beforeEach(() => {
+            mockOctokit.rest.pulls.get.mockResolvedValue({ data: renovatePullRequestData })
+            mockOctokit.rest.pulls.listCommits.mockResolvedValue({ data: [{ commit: { message: 'Update dependency test-package to v1.0.1' } }] })
+        })
+
+        // Test case: Renovate is not trusted unless the repository opts in
+        it('should skip a pull request of an untrusted bot', async () => {
+            const evaluation = await evaluatePullRequest(createContext() as any, 'test-owner', 'test-repo', 1)
+
+            expect(evaluation).toEqual({ pull_number: 1, outcome: 'skipped', reason: 'Renovate is not trusted in .steward.yml' })
+            expect(mockOctokit.rest.checks.create).not.toHaveBeenCalled()
+            expect(mockOctokit.rest.pulls.merge).not.toHaveBeenCalled()
+        })
+
+        // Test case: a trusted bot's pull request is merged based on the metadata parsed by its adapter
+        it('should merge a pull request of a trusted bot', async () => {
+            mockOctokit.config.get.mockResolvedValue({ config: { bots: ['dependabot', 'renovate'], ecosystems: ['npm'] }, files: [] })
+
+            const evaluation = await evaluatePullRequest(createContext() as any, 'test-owner', 'test-repo', 1)
+
+            expect(evaluation.outcome).toBe('merged')
+            expect(mockOctokit.rest.pulls.createReview).toHaveBeenCalled()
+        })
+
+        // Test case: the update type is derived from the versions in the table
+        it('should apply the merge policy to the parsed updates', async () => {
+            mockOctokit.config.get.mockResolvedValue({ config: { bots: ['renovate'], update_types: ['minor'] }, files: [] })
+
+            const evaluation = await evaluatePullRequest(createContext() as any, 'test-owner', 'test-repo', 1)
+
+            expect(evaluation).toMatchObject({ outcome: 'skipped', reason: 'test-package 1.0.0 → 1.0.1 is a patch update, which is not allowed' })
+        })
+
+        // Test case: the Renovate login on another branch is not a Renovate pull request
+        it('should not merge a pull request outside of the Renovate branches', async () => {
+            mockOctokit.config.get.mockResolvedValue({ config: { bots: ['renovate'] }, files: [] })
+            mockOctokit.rest.pulls.get.mockResolvedValue({ data: { ...renovatePullRequestData, head: { ...pullRequestData.head, ref: 'feature' } } })
+
+            const evaluation = await evaluatePullRequest(createContext() as any, 'test-owner', 'test-repo', 1)
+
+            expect(evaluation.reason).toBe('Pull request is not from a dependency bot')
+        })
+    })
+
+    // Test suite for 'pull_request.closed' events
+    describe('when a pull request has been closed', () => {
+        // Creates a mock context for a 'pull_request.closed' event
+        function createClosedContext(merged: boolean, log: { info: unknown; warn: unknown }) {
+            return {
+                payload: {
+                    repository: {
+                        owner: {
+                            login: 'test-owner'
+                        },
+                        name: 'test-repo'
+                    },
+                    pull_request: {
+                        number: 1,
+                        merged,
+                        merged_by: merged ? { login: 'dependabot-steward[bot]' } : null,
+                        user: {
+                            ...dependabotUser
+                        },
+                        head: {
+                            sha: 'test-sha'
+                        }
+                    }
+                },
+                octokit: mockOctokit,
+                log
+            }
+        }
+
+        // Test case: the merge should be confirmed for PRs approved by the steward
+        it('should confirm that an approved pull request was merged', async () => {
+            mockOctokit.rest.pulls.listReviews.mockResolvedValue({ data: [{ user: stewardUser }] })
+            const log = { info: vi.fn(), warn: vi.fn() }
+
+            await handlerFor('pull_request.closed')(createClosedContext(true, log))
+
+            expect(log.info).toHaveBeenCalledWith(expect.stringContaining('was merged by dependabot-steward[bot]'))
+        })
+
+        // Test case: closing without a merge should be reported
+        it('should warn if an approved pull request was closed without being merged', async () => {
+            mockOctokit.rest.pulls.listReviews.mockResolvedValue({ data: [{ user: stewardUser }] })
+            const log = { info: vi.fn(), warn: vi.fn() }
+
+            await handlerFor('pull_request.closed')(createClosedContext(false, log))
+
+            expect(log.warn).toHaveBeenCalledWith(expect.stringContaining('was closed without being merged'))
+        })
+
+        // Test case: PRs the steward did not approve should be ignored
+        it('should ignore pull requests the steward did not approve', async () => {
+            const log = { info: vi.fn(), warn: vi.fn() }
+
+            await handlerFor('pull_request.closed')(createClosedContext(true, log))
+
+            expect(log.info).not.toHaveBeenCalled()
+        })
+    })
+
+    // Test suite for 'status' events
+    describe('when a commit status has been reported', () => {
+        // Creates a mock context for a 'status' event
+        function createStatusContext(state: string) {
+            return {
+                payload: {
+                    repository: {
+                        owner: {
+                            login: 'test-owner'
+                        },
+                        name: 'test-repo'
+                    },
+                    sha: 'test-sha',
+                    context: 'ci/jenkins',
+                    state
+                },
+                octokit: mockOctokit,
+                log: console
+            }
+        }
+
+        beforeEach(() => {
+            // Require the commit status reported by Jenkins
+            mockOctokit.rest.repos.getBranchRules.mockResolvedValue({
+                data: [{ type: 'required_status_checks', parameters: { required_status_checks: [{ context: 'ci/jenkins' }] } }]
+            })
+        })
+
+        // Test case: a successful required commit status should allow the merge
+        it('should merge a pull request when the required commit status has passed', async () => {
+            mockOctokit.rest.repos.getCombinedStatusForRef.mockResolvedValue({
+                data: { state: 'success', statuses: [{ context: 'ci/jenkins', state: 'success' }] }
+            })
+
+            await handlerFor('status')(createStatusContext('success'))
+
+            expect(mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit).toHaveBeenCalledWith({
+                owner: 'test-owner',
+                repo: 'test-repo',
+                commit_sha: 'test-sha'
+            })
+            expect(mockOctokit.rest.pulls.merge).toHaveBeenCalled()
+        })
+
+        // Test case: a failed required commit status should block the merge
+        it('should not merge a pull request when the required commit status has failed', async () => {
+            mockOctokit.rest.repos.getCombinedStatusForRef.mockResolvedValue({
+                data: { state: 'failure', statuses: [{ context: 'ci/jenkins', state: 'failure' }] }
+            })
+
+            await handlerFor('status')(createStatusContext('failure'))
+
+            expect(mockOctokit.rest.pulls.merge).not.toHaveBeenCalled()
+        })
+
+        // Test case: a stuck commit status the configuration ignores should not block the merge
+        it('should merge a pull request while an ignored commit status is pending', async () => {
+            mockOctokit.config.get.mockResolvedValue({ config: { checks: { ignore: ['ci/flaky-*'] } }, files: [] })
+            mockOctokit.rest.repos.getCombinedStatusForRef.mockResolvedValue({
+                data: {
+                    state: 'pending',
+                    statuses: [
+                        { context: 'ci/jenkins', state: 'success' },
+                        { context: 'ci/flaky-e2e', state: 'pending' }
+                    ]
+                }
+            })
+
+            await handlerFor('status')(createStatusContext('success'))
+
+            expect(mockOctokit.rest.pulls.merge).toHaveBeenCalled()
+        })
+
+        // Test case: pending statuses should not trigger an evaluation
+        it('should ignore pending commit statuses', async () => {
+            await handlerFor('status')(createStatusContext('pending'))
+
+            expect(mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit).not.toHaveBeenCalled()
+            expect(mockOctokit.rest.pulls.merge).not.toHaveBeenCalled()
+        })
+
+        // Test case: required commit statuses should also count when a check suite completes
+        it('should count commit statuses towards the required checks of a check suite', async () => {
+            mockOctokit.rest.repos.getCombinedStatusForRef.mockResolvedValue({
+                data: { state: 'success', statuses: [{ context: 'ci/jenkins', state: 'success' }] }
+            })
+            mockOctokit.rest.checks.listSuitesForRef.mockResolvedValue({
+                data: {
+                    total_count: 1,
+                    check_suites: [{ status: 'completed', conclusion: 'success', latest_check_runs_count: 1 }]
+                }
+            })
+            mockOctokit.rest.checks.listForSuite.mockResolvedValue({ data: { check_runs: [{ id: 1, name: 'build', conclusion: 'success' }] } })
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.pulls.merge).toHaveBeenCalled()
+        })
+    })
+
+    // Test suite for the other events that trigger an evaluation
+    describe('when another event may make the pull request mergeable', () => {
+        const repository = {
+            owner: {
+                login: 'test-owner'
+            },
+            name: 'test-repo'
+        }
+
+        // Test case: opened, synchronized and reopened PRs should be evaluated once CI has completed
+        it.each(['opened', 'synchronize', 'reopened'])('should merge a pull request on pull_request.%s', async action => {
+            mockOctokit.rest.checks.listSuitesForRef.mockResolvedValue({
+                data: { total_count: 1, check_suites: [{ id: 1, status: 'completed', conclusion: 'success', latest_check_runs_count: 1 }] }
+            })
+
+            await handlerFor('pull_request.opened')({
+                payload: { action, repository, pull_request: { number: 1 } },
+                octokit: mockOctokit,
+                log: console
+            })
+
+            expect(mockOctokit.rest.pulls.get).toHaveBeenCalledWith({ owner: 'test-owner', repo: 'test-repo', pull_number: 1 })
+            expect(mockOctokit.rest.pulls.merge).toHaveBeenCalled()
+        })
+
+        // Test case: CI has queued its check suite but not started it when the pull request is opened
+        it('should not approve a pull request before its check suites have started', async () => {
+            mockOctokit.rest.checks.listSuitesForRef.mockResolvedValue({
+                data: { total_count: 1, check_suites: [{ id: 1, status: 'queued', latest_check_runs_count: 0, app: { name: 'GitHub Actions' } }] }
+            })
+
+            await handlerFor('pull_request.opened')({
+                payload: { action: 'opened', repository, pull_request: { number: 1 } },
+                octokit: mockOctokit,
+                log: console
+            })
+
+            expect(mockOctokit.rest.pulls.createReview).not.toHaveBeenCalled()
+            expect(mockOctokit.rest.pulls.merge).not.toHaveBeenCalled()
+        })
+
+        // Test case: CI has not created its check runs yet when the pull request is opened
+        it('should not approve a pull request before its required checks have reported', async () => {
+            mockOctokit.rest.repos.getBranchRules.mockResolvedValue({
+                data: [{ type: 'required_status_checks', parameters: { required_status_checks: [{ context: 'build' }] } }]
+            })
+
+            await handlerFor('pull_request.opened')({
+                payload: { action: 'opened', repository, pull_request: { number: 1 } },
+                octokit: mockOctokit,
+                log: console
+            })
+
+            expect(mockOctokit.rest.checks.create).toHaveBeenCalledWith(
+                expect.objectContaining({ output: expect.objectContaining({ summary: expect.stringContaining('**Missing required checks:**') }) })
+            )
+            expect(mockOctokit.rest.pulls.createReview).not.toHaveBeenCalled()
+            expect(mockOctokit.rest.pulls.merge).not.toHaveBeenCalled()
+        })
+
+        // Test case: a human approval should trigger an evaluation
+        it('should merge a pull request on pull_request_review.submitted with an approval', async () => {
+            await handlerFor('pull_request_review.submitted')({
+                payload: { repository, pull_request: { number: 1 }, review: { state: 'approved', user: { login: 'octocat', type: 'User' } } },
+                octokit: mockOctokit,
+                log: console
+            })
+
+            expect(mockOctokit.rest.pulls.merge).toHaveBeenCalled()
+        })
+
+        // Test case: other reviews, including the steward's own approval, should be ignored
+        it('should ignore reviews that are not approvals or are from the steward', async () => {
+            const handler = handlerFor('pull_request_review.submitted')
+
+            await handler({
+                payload: {
+                    repository,
+                    pull_request: { number: 1 },
+                    review: { state: 'changes_requested', user: { login: 'octocat', type: 'User' } }
+                },
+                octokit: mockOctokit,
+                log: console
+            })
+            await handler({
+                payload: { repository, pull_request: { number: 1 }, review: { state: 'approved', user: stewardUser } },
+                octokit: mockOctokit,
+                log: console
+            })
+
+            expect(mockOctokit.rest.pulls.get).not.toHaveBeenCalled()
+        })
+
+        // Test case: each PR of a completed check run should be evaluated
+        it('should merge a pull request on check_run.completed', async () => {
+            await handlerFor('check_run.completed')({
+                payload: { repository, check_run: { name: 'build', pull_requests: [{ number: 1 }] } },
+                octokit: mockOctokit,
+                log: console
+            })
+
+            expect(mockOctokit.rest.pulls.merge).toHaveBeenCalled()
+        })
+
+        // Test case: the steward's own report should not trigger another evaluation
+        it("should ignore the steward's own check run", async () => {
+            await handlerFor('check_run.completed')({
+                payload: { repository, check_run: { name: 'Dependabot Steward', pull_requests: [{ number: 1 }] } },
+                octokit: mockOctokit,
+                log: console
+            })
+
+            expect(mockOctokit.rest.pulls.get).not.toHaveBeenCalled()
+        })
+
+        // Test case: the check suite of the steward's own report should not trigger another evaluation either
+        it("should ignore the steward's own check suite", async () => {
+            const context = createContext()
+            Object.assign(context.payload.check_suite, { app: { id: 1, slug: 'dependabot-steward' } })
+
+            await handlerFor('check_suite.completed')(context)
+
+            expect(mockOctokit.rest.pulls.get).not.toHaveBeenCalled()
+        })
+    })
+
+    // Test suite for the reusable evaluation
+    describe('evaluatePullRequest', () => {
+        // Test case: the outcome should be returned
+        it('should return the outcome of a merge', async () => {
+            expect(await evaluatePullRequest({ octokit: mockOctokit, log: console } as any, 'test-owner', 'test-repo', 1)).toEqual({
+                pull_number: 1,
+                outcome: 'merged',
+                reason: 'Merged using merge method'
+            })
+        })
+
+        // Test case: closed PRs should be skipped
+        it('should skip a closed pull request', async () => {
+            mockOctokit.rest.pulls.get.mockResolvedValue({ data: { ...pullRequestData, state: 'closed' } })
+
+            expect(await evaluatePullRequest({ octokit: mockOctokit, log: console } as any, 'test-owner', 'test-repo', 1)).toEqual({
+                pull_number: 1,
+                outcome: 'skipped',
+                reason: 'Pull request is closed'
+            })
+            expect(mockOctokit.rest.pulls.merge).not.toHaveBeenCalled()
+        })
+    })
+
+    // Test suite for check suites with several pull requests
+    describe('when a check suite references multiple pull requests', () => {
+        // Creates a mock context for a 'check_suite.completed' event of two PRs sharing the head commit
+        function createMultiContext() {
+            const context = createContext()
+            const pr = context.payload.check_suite.pull_requests[0]
+            context.payload.check_suite.pull_requests.push({ ...pr, number: 2 })
+            return context
+        }
+
+        // Test case: every PR should be evaluated without mutating the payload
+        it('should evaluate every pull request of the check suite', async () => {
+            const context = createMultiContext()
+
+            await eventHandler(context)
+
+            expect(mockOctokit.rest.pulls.merge).toHaveBeenCalledWith(expect.objectContaining({ pull_number: 1 }))
+            expect(mockOctokit.rest.pulls.merge).toHaveBeenCalledWith(expect.objectContaining({ pull_number: 2 }))
+            expect(context.payload.check_suite.pull_requests).toHaveLength(2)
+        })
+
+        // Test case: an error for one PR should not prevent the others from being evaluated
+        it('should evaluate the other pull requests if one fails', async () => {
+            mockOctokit.rest.pulls.get.mockRejectedValueOnce(new Error('Not Found'))
+
+            await expect(eventHandler(createMultiContext())).rejects.toThrow('Failed to evaluate 1 of 2 pull requests.')
+            expect(mockOctokit.rest.pulls.merge).toHaveBeenCalledTimes(1)
+            expect(mockOctokit.rest.pulls.merge).toHaveBeenCalledWith(expect.objectContaining({ pull_number: 2 }))
+        })
+    })
+
+    // Test suite for explaining the decision on the pull request
+    describe('when reporting the decision', () => {
+        // Makes the required build check fail
+        function failRequiredCheck() {
+            mockOctokit.rest.checks.listSuitesForRef.mockResolvedValue({
+                data: { total_count: 1, check_suites: [{ id: 1, status: 'completed', latest_check_runs_count: 1 }] }
+            })
+            mockOctokit.rest.repos.getBranchRules.mockResolvedValue({
+                data: [{ type: 'required_status_checks', parameters: { required_status_checks: [{ context: 'build' }, { context: 'lint' }] } }]
+            })
+            mockOctokit.rest.checks.listForSuite.mockResolvedValue({ data: { check_runs: [{ id: 1, name: 'build', conclusion: 'failure' }] } })
+        }
+
+        // Test case: a skipped PR should get a neutral check run listing the failed and missing checks
+        it('should create a neutral check run with the missing and failed checks', async () => {
+            failRequiredCheck()
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.checks.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    head_sha: 'test-sha',
+                    name: 'Dependabot Steward',
+                    status: 'completed',
+                    conclusion: 'neutral',
+                    output: {
+                        title: 'Not merged: Not all required checks have passed',
+                        summary: expect.stringContaining('**Missing required checks:**\n- `lint`')
+                    }
+                })
+            )
+            expect(mockOctokit.rest.checks.create.mock.calls[0][0].output.summary).toContain('**Failed required checks:**\n- `build`')
+        })
+
+        // Test case: a merged PR should get a successful check run
+        it('should create a successful check run when the pull request is merged', async () => {
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.checks.create).toHaveBeenCalledWith(
+                expect.objectContaining({ conclusion: 'success', output: expect.objectContaining({ title: 'Merged: Merged using merge method' }) })
+            )
+        })
+
+        // Test case: the existing check run should only be updated if the decision changed
+        it('should update its existing check run only if the decision changed', async () => {
+            failRequiredCheck()
+            mockOctokit.rest.checks.listForRef.mockResolvedValue({
+                data: { total_count: 1, check_runs: [{ id: 7, conclusion: 'neutral', output: { title: 'Outdated', summary: 'Outdated' } }] }
+            })
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.checks.create).not.toHaveBeenCalled()
+            expect(mockOctokit.rest.checks.update).toHaveBeenCalledWith(expect.objectContaining({ check_run_id: 7, conclusion: 'neutral' }))
+
+            const { title, summary } = mockOctokit.rest.checks.update.mock.calls[0][0].output
+            mockOctokit.rest.checks.listForRef.mockResolvedValue({
+                data: { total_count: 1, check_runs: [{ id: 7, conclusion: 'neutral', output: { title, summary } }] }
+            })
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.checks.update).toHaveBeenCalledTimes(1)
+        })
+
+        // Test case: without the checks permission, the report should fall back to a comment
+        it('should comment instead if it may not create check runs', async () => {
+            failRequiredCheck()
+            mockOctokit.rest.checks.listForRef.mockRejectedValue(Object.assign(new Error('Resource not accessible by integration'), { status: 403 }))
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledWith(
+                expect.objectContaining({ body: expect.stringContaining('**Decision:** Not merged. Not all required checks have passed.') })
+            )
+        })
+
+        // Test case: comment mode should keep a single comment up to date
+        it('should comment the decision if configured', async () => {
+            mockOctokit.config.get.mockResolvedValue({ config: { report: 'comment' }, files: [] })
+            failRequiredCheck()
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.checks.create).not.toHaveBeenCalled()
+            expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledWith(
+                expect.objectContaining({ body: expect.stringContaining('- `build`') })
+            )
+        })
+
+        // Test case: a merge should not add a new comment, only update an existing one
+        it('should not create a comment for a merged pull request', async () => {
+            mockOctokit.config.get.mockResolvedValue({ config: { report: 'comment' }, files: [] })
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.pulls.merge).toHaveBeenCalled()
+            expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled()
+        })
+
+        // Test case: reporting can be turned off
+        it('should not report if disabled', async () => {
+            mockOctokit.config.get.mockResolvedValue({ config: { report: 'none' }, files: [] })
+            failRequiredCheck()
+
+            await eventHandler(createContext())
+
+            expect(mockOctokit.rest.checks.create).not.toHaveBeenCalled()
+            expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled()
+        })
+    })
 })
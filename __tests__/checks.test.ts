@@ -0,0 +1,230 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { evaluateChecks, findLatestCheckRun } from '../src/checks.ts'
+import { defaultConfig } from '../src/config.ts'
+
+// Test suite for the required check evaluation
+describe('evaluateChecks', () => {
+    let mockOctokit: any
+    const target = { owner: 'test-owner', repo: 'test-repo', headRef: 'dependabot/npm_and_yarn/test', headSha: 'test-sha' }
+    const requiredChecks = [{ context: 'build' }, { context: 'ci/jenkins' }] // The status checks required by the branch rules
+    const policy = defaultConfig.checks // Successful, neutral and skipped checks pass
+
+    beforeEach(() => {
+        mockOctokit = {
+            rest: {
+                checks: {
+                    // One completed check suite by default
+                    listSuitesForRef: vi.fn().mockResolvedValue({
+                        data: {
+                            total_count: 1,
+                            check_suites: [{ id: 1, status: 'completed', latest_check_runs_count: 2 }]
+                        }
+                    }),
+                    // A successful build and a failed lint by default
+                    listForSuite: vi.fn().mockResolvedValue({
+                        data: {
+                            total_count: 2,
+                            check_runs: [
+                                { id: 1, name: 'build', conclusion: 'success', app: { id: 15368 } },
+                                { id: 2, name: 'lint', conclusion: 'failure', app: { id: 15368 } }
+                            ]
+                        }
+                    })
+                },
+                repos: {
+                    // No commit statuses by default
+                    getCombinedStatusForRef: vi.fn().mockResolvedValue({ data: { state: 'pending', statuses: [] } })
+                }
+            },
+            paginate: vi.fn(async (method, params) => (await method(params)).data.check_runs) // Mock pagination with a single page
+        }
+    })
+
+    it('should pass when the required checks and commit statuses have passed', async () => {
+        mockOctokit.rest.repos.getCombinedStatusForRef.mockResolvedValue({ data: { statuses: [{ context: 'ci/jenkins', state: 'success' }] } })
+
+        expect(await evaluateChecks(mockOctokit, target, requiredChecks, policy)).toEqual({ passed: true, missing: [], failed: [], pending: [] })
+    })
+
+    it('should report required checks that have not reported', async () => {
+        expect(await evaluateChecks(mockOctokit, target, requiredChecks, policy)).toMatchObject({
+            passed: false,
+            missing: ['ci/jenkins'],
+            failed: []
+        })
+    })
+
+    it('should report required commit statuses that have failed', async () => {
+        mockOctokit.rest.repos.getCombinedStatusForRef.mockResolvedValue({ data: { statuses: [{ context: 'ci/jenkins', state: 'error' }] } })
+
+        expect(await evaluateChecks(mockOctokit, target, requiredChecks, policy)).toMatchObject({
+            passed: false,
+            missing: [],
+            failed: ['ci/jenkins']
+        })
+    })
+
+    it('should wait for pending commit statuses', async () => {
+        mockOctokit.rest.repos.getCombinedStatusForRef.mockResolvedValue({ data: { statuses: [{ context: 'ci/jenkins', state: 'pending' }] } })
+
+        expect(await evaluateChecks(mockOctokit, target, requiredChecks, policy)).toMatchObject({ passed: false, pending: ['ci/jenkins'] })
+        expect(mockOctokit.rest.checks.listForSuite).not.toHaveBeenCalled()
+    })
+
+    it('should pass when there are no check suites or commit statuses and no checks are required', async () => {
+        mockOctokit.rest.checks.listSuitesForRef.mockResolvedValue({ data: { total_count: 0, check_suites: [] } })
+
+        expect((await evaluateChecks(mockOctokit, target, [], policy)).passed).toBe(true)
+    })
+
+    it('should report the required checks as missing before CI has created any check runs', async () => {
+        mockOctokit.rest.checks.listSuitesForRef.mockResolvedValue({ data: { total_count: 0, check_suites: [] } })
+
+        expect(await evaluateChecks(mockOctokit, target, requiredChecks, policy)).toMatchObject({
+            passed: false,
+            missing: ['build', 'ci/jenkins']
+        })
+    })
+
+    it('should wait for check suites that have not created their check runs yet', async () => {
+        mockOctokit.rest.checks.listSuitesForRef.mockResolvedValue({
+            data: {
+                total_count: 2,
+                check_suites: [
+                    { id: 1, status: 'queued', latest_check_runs_count: 0, app: { slug: 'github-actions', name: 'GitHub Actions' } },
+                    { id: 2, status: 'completed', latest_check_runs_count: 0, app: { slug: 'other-app', name: 'Other App' } }
+                ]
+            }
+        })
+
+        expect(await evaluateChecks(mockOctokit, target, [], policy)).toMatchObject({ passed: false, pending: ['GitHub Actions'] })
+    })
+
+    it("should not wait for the steward's own check suite", async () => {
+        mockOctokit.rest.checks.listSuitesForRef.mockResolvedValue({
+            data: {
+                total_count: 1,
+                check_suites: [{ id: 1, status: 'in_progress', latest_check_runs_count: 0, app: { slug: 'dependabot-steward', name: 'Steward' } }]
+            }
+        })
+
+        expect((await evaluateChecks(mockOctokit, target, [], policy, 'dependabot-steward[bot]')).passed).toBe(true)
+    })
+
+    it('should pass when no checks are required', async () => {
+        expect(await evaluateChecks(mockOctokit, target, [], policy)).toEqual({ passed: true, missing: [], failed: [], pending: [] })
+        expect(mockOctokit.rest.checks.listForSuite).not.toHaveBeenCalled()
+    })
+
+    it('should only accept check runs from the required app', async () => {
+        mockOctokit.rest.repos.getCombinedStatusForRef.mockResolvedValue({ data: { statuses: [{ context: 'ci/jenkins', state: 'success' }] } })
+
+        expect(await evaluateChecks(mockOctokit, target, [{ context: 'build', integration_id: 15368 }], policy)).toMatchObject({ passed: true })
+        expect(await evaluateChecks(mockOctokit, target, [{ context: 'build', integration_id: 1 }], policy)).toMatchObject({
+            passed: false,
+            missing: ['build']
+        })
+    })
+
+    it('should not accept a commit status for a check required from an app', async () => {
+        mockOctokit.rest.repos.getCombinedStatusForRef.mockResolvedValue({ data: { statuses: [{ context: 'ci/jenkins', state: 'success' }] } })
+
+        expect(await evaluateChecks(mockOctokit, target, [{ context: 'ci/jenkins', integration_id: 15368 }], policy)).toMatchObject({
+            passed: false,
+            missing: ['ci/jenkins']
+        })
+    })
+
+    it('should decide by the latest run of a required check', async () => {
+        mockOctokit.rest.checks.listSuitesForRef.mockResolvedValue({
+            data: {
+                total_count: 2,
+                check_suites: [
+                    { id: 1, status: 'completed', latest_check_runs_count: 1 },
+                    { id: 2, status: 'completed', latest_check_runs_count: 1 }
+                ]
+            }
+        })
+        mockOctokit.rest.checks.listForSuite.mockImplementation(async ({ check_suite_id }: { check_suite_id: number }) => ({
+            data: {
+                check_runs: [
+                    check_suite_id === 1
+                        ? { id: 1, name: 'build', conclusion: 'failure', started_at: '2026-01-01T00:00:00Z' }
+                        : { id: 2, name: 'build', conclusion: 'success', started_at: '2026-01-02T00:00:00Z' }
+                ]
+            }
+        }))
+
+        expect(await evaluateChecks(mockOctokit, target, [{ context: 'build' }], policy)).toMatchObject({ passed: true })
+        expect(mockOctokit.paginate).toHaveBeenCalledWith(
+            mockOctokit.rest.checks.listForSuite,
+            expect.objectContaining({ check_suite_id: 2, per_page: 100 })
+        )
+    })
+
+    it('should apply the configured verdicts to the conclusions', async () => {
+        mockOctokit.rest.checks.listForSuite.mockResolvedValue({
+            data: { check_runs: [{ id: 1, name: 'build', conclusion: 'skipped' }] }
+        })
+        const strict = { ...policy, conclusions: { ...policy.conclusions, skipped: 'fail' as const } }
+        const patient = { ...policy, conclusions: { ...policy.conclusions, skipped: 'wait' as const } }
+
+        expect(await evaluateChecks(mockOctokit, target, [{ context: 'build' }], policy)).toMatchObject({ passed: true })
+        expect(await evaluateChecks(mockOctokit, target, [{ context: 'build' }], strict)).toMatchObject({ passed: false, failed: ['build'] })
+        expect(await evaluateChecks(mockOctokit, target, [{ context: 'build' }], patient)).toMatchObject({
+            passed: false,
+            reason: 'Some required checks are waiting for another conclusion',
+            pending: ['build']
+        })
+    })
+
+    it('should ignore the configured checks and require additional ones', async () => {
+        mockOctokit.rest.repos.getCombinedStatusForRef.mockResolvedValue({ data: { statuses: [{ context: 'codecov/patch', state: 'failure' }] } })
+
+        expect(await evaluateChecks(mockOctokit, target, requiredChecks, { ...policy, ignore: ['ci/*'] })).toMatchObject({ passed: true })
+        expect(await evaluateChecks(mockOctokit, target, requiredChecks, { ...policy, ignore: ['ci/*'], require: ['codecov/patch'] })).toMatchObject({
+            passed: false,
+            failed: ['codecov/patch']
+        })
+    })
+
+    it('should not wait for ignored commit statuses', async () => {
+        mockOctokit.rest.repos.getCombinedStatusForRef.mockResolvedValue({
+            data: {
+                statuses: [
+                    { context: 'ci/jenkins', state: 'success' },
+                    { context: 'ci/flaky-e2e', state: 'pending' }
+                ]
+            }
+        })
+
+        expect(await evaluateChecks(mockOctokit, target, [{ context: 'build' }], { ...policy, ignore: ['ci/flaky-*'] })).toMatchObject({
+            passed: true
+        })
+    })
+
+    it('should require the additional checks even without any checks', async () => {
+        mockOctokit.rest.checks.listSuitesForRef.mockResolvedValue({ data: { total_count: 0, check_suites: [] } })
+
+        expect(await evaluateChecks(mockOctokit, target, [], { ...policy, require: ['e2e'] })).toMatchObject({ passed: false, missing: ['e2e'] })
+    })
+})
+
+// Test suite for finding the check run that decides a required check
+describe('findLatestCheckRun', () => {
+    const checkRuns = [
+        { id: 3, name: 'build', started_at: '2026-01-01T00:00:00Z', app: { id: 1 } },
+        { id: 1, name: 'build', started_at: '2026-01-02T00:00:00Z', app: { id: 2 } },
+        { id: 2, name: 'build', started_at: '2026-01-02T00:00:00Z', app: { id: 2 } },
+        { id: 4, name: 'lint', started_at: '2026-01-03T00:00:00Z', app: { id: 1 } }
+    ] as any[]
+
+    it('should prefer the latest started run, then the latest created one', () => {
+        expect(findLatestCheckRun(checkRuns, { context: 'build' })?.id).toBe(2)
+    })
+
+    it('should only consider runs of the required app', () => {
+        expect(findLatestCheckRun(checkRuns, { context: 'build', integration_id: 1 })?.id).toBe(3)
+        expect(findLatestCheckRun(checkRuns, { context: 'test' })).toBeUndefined()
+    })
+})
@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest'
+import { ConfigError, defaultConfig, parseEcosystem, validateConfig } from '../src/config.ts'
+
+// Test suite for the .steward.yml schema validation
+describe('validateConfig', () => {
+    it('should return the defaults for an empty configuration', () => {
+        expect(validateConfig({})).toEqual(defaultConfig)
+    })
+
+    it('should accept a valid configuration', () => {
+        expect(
+            validateConfig({
+                enabled: false,
+                merge_method: 'rebase',
+                ecosystems: ['npm', 'github_actions'],
+                update_types: ['patch']
+            })
+        ).toEqual({
+            ...defaultConfig,
+            enabled: false,
+            merge_method: ['rebase'],
+            ecosystems: ['npm_and_yarn', 'github_actions'],
+            update_types: ['patch']
+        })
+    })
+
+    it('should accept dependency rules', () => {
+        expect(
+            validateConfig({
+                rules: [
+                    { dependency: 'react*', update_types: ['major'], action: 'deny', reason: 'Needs a migration' },
+                    { ecosystems: ['github-actions'], action: 'allow' }
+                ]
+            }).rules
+        ).toEqual([
+            { dependency: 'react*', update_types: ['major'], action: 'deny', reason: 'Needs a migration' },
+            { ecosystems: ['github_actions'], action: 'allow' }
+        ])
+    })
+
+    it('should reject invalid dependency rules', () => {
+        expect(() => validateConfig({ rules: [{ dependency: 'react*' }] })).toThrow('`rules[0].action` must be one of `allow`, `deny`.')
+        expect(() => validateConfig({ rules: [{ action: 'allow', name: 'react' }] })).toThrow('Unknown key `rules[0].name`.')
+    })
+
+    it('should accept a merge method preference list and commit templates', () => {
+        expect(validateConfig({ merge_method: ['squash', 'rebase'], commit_title: '{dependency} {to} (#{pr_number})' })).toMatchObject({
+            merge_method: ['squash', 'rebase'],
+            commit_title: '{dependency} {to} (#{pr_number})'
+        })
+    })
+
+    it('should accept a report mode', () => {
+        expect(validateConfig({ report: 'comment' }).report).toBe('comment')
+        expect(() => validateConfig({ report: 'email' })).toThrow('`report` must be one of `check_run`, `comment`, `none`.')
+    })
+
+    it('should accept a check policy', () => {
+        expect(
+            validateConfig({ checks: { conclusions: { skipped: 'fail', action_required: 'wait' }, ignore: ['flaky-*'], require: ['e2e'] } }).checks
+        ).toEqual({
+            conclusions: { ...defaultConfig.checks.conclusions, skipped: 'fail', action_required: 'wait' },
+            ignore: ['flaky-*'],
+            require: ['e2e']
+        })
+        expect(defaultConfig.checks.conclusions.skipped).toBe('pass')
+    })
+
+    it('should reject an invalid check policy', () => {
+        expect(() => validateConfig({ checks: { conclusions: { skipped: 'maybe' } } })).toThrow(
+            '`checks.conclusions.skipped` must be one of `pass`, `fail`, `wait`.'
+        )
+        expect(() => validateConfig({ checks: { conclusions: { succeeded: 'pass' } } })).toThrow('Unknown key `checks.conclusions.succeeded`.')
+        expect(() => validateConfig({ checks: { ignore: 'flaky' } })).toThrow('`checks.ignore` must be a list of strings.')
+    })
+
+    it('should accept a number of retries', () => {
+        expect(validateConfig({ retries: 2 }).retries).toBe(2)
+        expect(() => validateConfig({ retries: -1 })).toThrow('`retries` must be a whole number of at least 0.')
+    })
+
+    it('should accept a branch update mode', () => {
+        expect(validateConfig({ update_branch: 'update' }).update_branch).toBe('update')
+        expect(() => validateConfig({ update_branch: 'merge' })).toThrow('`update_branch` must be one of `rebase`, `update`, `none`.')
+    })
+
+    it('should accept a cooldown per ecosystem', () => {
+        expect(validateConfig({ cooldown: { days: 3, ecosystems: { npm: 7 }, from: 'release' } }).cooldown).toEqual({
+            days: 3,
+            ecosystems: { npm_and_yarn: 7 },
+            from: 'release'
+        })
+        expect(() => validateConfig({ cooldown: { ecosystems: { pip: 'a week' } } })).toThrow(
+            '`cooldown.ecosystems.pip` must be a whole number of at least 0.'
+        )
+        expect(() => validateConfig({ cooldown: { from: 'publish' } })).toThrow('`cooldown.from` must be one of `pull_request`, `release`.')
+    })
+
+    it('should accept merge windows and freeze periods', () => {
+        expect(
+            validateConfig({
+                schedule: {
+                    timezone: 'Europe/Berlin',
+                    windows: [
+                        { days: ['mon', 'fri'], start: '09:00', end: '17:00' },
+                        { start: '20:00', end: '24:00' }
+                    ],
+                    freezes: [{ from: new Date('2026-12-20T00:00:00Z'), to: '2027-01-05' }]
+                }
+            }).schedule
+        ).toEqual({
+            timezone: 'Europe/Berlin',
+            windows: [
+                { days: ['mon', 'fri'], start: '09:00', end: '17:00' },
+                { days: ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'], start: '20:00', end: '24:00' }
+            ],
+            freezes: [{ from: '2026-12-20', to: '2027-01-05' }]
+        })
+    })
+
+    it('should reject invalid merge windows and freeze periods', () => {
+        expect(() => validateConfig({ schedule: { timezone: 'Mars/Olympus' } })).toThrow('`schedule.timezone` must be an IANA time zone')
+        expect(() => validateConfig({ schedule: { windows: [{ start: '9am', end: '17:00' }] } })).toThrow(
+            '`schedule.windows[0].start` must be a time of day as `HH:MM`.'
+        )
+        expect(() => validateConfig({ schedule: { windows: [{ start: '17:00', end: '09:00' }] } })).toThrow(
+            '`schedule.windows[0].end` must be after `schedule.windows[0].start`.'
+        )
+        expect(() => validateConfig({ schedule: { freezes: [{ from: '2027-01-05', to: '2026-12-20' }] } })).toThrow(
+            '`schedule.freezes[0].to` must not be before `schedule.freezes[0].from`.'
+        )
+    })
+
+    it('should accept dry-run mode', () => {
+        expect(validateConfig({ dry_run: true }).dry_run).toBe(true)
+        expect(() => validateConfig({ dry_run: 'yes' })).toThrow('`dry_run` must be `true` or `false`.')
+    })
+
+    it('should accept trusted bots', () => {
+        expect(validateConfig({ bots: ['dependabot', 'renovate'] }).bots).toEqual(['dependabot', 'renovate'])
+        expect(() => validateConfig({ bots: ['greenkeeper'] })).toThrow('`bots` contains unknown values `greenkeeper`')
+    })
+
+    it('should accept a security policy', () => {
+        expect(validateConfig({ security: { update_types: ['major'], min_severity: 'high', cooldown: false } }).security).toEqual({
+            update_types: ['major'],
+            min_severity: 'high',
+            cooldown: false,
+            schedule: true
+        })
+        expect(() => validateConfig({ security: { min_severity: 'severe' } })).toThrow('`security.min_severity` must be one of')
+    })
+
+    it('should reject a configuration that is not a mapping', () => {
+        expect(() => validateConfig(['enabled'])).toThrow(ConfigError)
+    })
+
+    it('should report every invalid key', () => {
+        try {
+            validateConfig({ enabled: 1, merge_method: 'fast-forward', update_types: ['patch', 'huge'], unknown: true })
+            expect.unreachable()
+        } catch (e) {
+            expect(e).toBeInstanceOf(ConfigError)
+            expect((e as ConfigError).issues).toHaveLength(4)
+        }
+    })
+})
+
+// Test suite for the ecosystem extraction from Dependabot branch names
+describe('parseEcosystem', () => {
+    it('should extract the ecosystem from a Dependabot branch', () => {
+        expect(parseEcosystem('dependabot/npm_and_yarn/react-18.2.0')).toBe('npm_and_yarn')
+        expect(parseEcosystem('dependabot/github_actions/actions/checkout-4')).toBe('github_actions')
+    })
+
+    it('should return undefined for other branches', () => {
+        expect(parseEcosystem('feature/dependabot')).toBeUndefined()
+    })
+})
@@ -0,0 +1,80 @@
+import { delay, HttpResponse, http } from 'msw'
+import { describe, expect, it, vi } from 'vitest'
+import { defaultConfig } from '../src/config.ts'
+import { evaluateCooldown } from '../src/cooldown.ts'
+import { server } from './setupTests.ts'
+
+// Test suite for the minimum age of pull requests
+describe('evaluateCooldown', () => {
+    const now = new Date('2026-01-10T12:00:00Z')
+    const updates = [{ name: 'test-package', from: '1.0.0', to: '1.0.1' }]
+
+    it('should not wait without a cooldown', async () => {
+        expect(await evaluateCooldown(defaultConfig.cooldown, 'npm_and_yarn', '2026-01-10T11:00:00Z', updates, now)).toEqual({ ready: true })
+    })
+
+    it('should measure the age from the creation of the pull request', async () => {
+        const config = { days: 3, ecosystems: {}, from: 'pull_request' as const }
+
+        expect(await evaluateCooldown(config, 'npm_and_yarn', '2026-01-07T12:00:00Z', updates, now)).toEqual({ ready: true })
+        expect(await evaluateCooldown(config, 'npm_and_yarn', '2026-01-08T00:00:00Z', updates, now)).toEqual({
+            ready: false,
+            reason: 'Cooldown of 3 days since the pull request was opened ends at 2026-01-11T00:00:00.000Z',
+            until: new Date('2026-01-11T00:00:00Z')
+        })
+    })
+
+    it('should prefer the cooldown of the ecosystem', async () => {
+        const config = { days: 3, ecosystems: { github_actions: 0 }, from: 'pull_request' as const }
+
+        expect(await evaluateCooldown(config, 'github_actions', '2026-01-10T11:00:00Z', updates, now)).toEqual({ ready: true })
+        expect((await evaluateCooldown(config, 'pip', '2026-01-10T11:00:00Z', updates, now)).ready).toBe(false)
+    })
+
+    it('should measure the age from the youngest release', async () => {
+        server.use(
+            http.get('https://registry.npmjs.org/test-package', () =>
+                HttpResponse.json({ time: { '1.0.1': '2026-01-05T00:00:00Z', '2.0.0': '2026-01-09T00:00:00Z' } })
+            ),
+            http.get('https://registry.npmjs.org/@types%2Ftest', () => HttpResponse.json({ time: { '2.0.0': '2026-01-09T00:00:00Z' } }))
+        )
+        const config = { days: 3, ecosystems: {}, from: 'release' as const }
+
+        expect(await evaluateCooldown(config, 'npm_and_yarn', '2026-01-10T11:00:00Z', updates, now)).toEqual({ ready: true })
+        expect(
+            await evaluateCooldown(config, 'npm_and_yarn', '2026-01-10T11:00:00Z', [...updates, { name: '@types/test', to: '2.0.0' }], now)
+        ).toEqual({
+            ready: false,
+            reason: 'Cooldown of 3 days since the release ends at 2026-01-12T00:00:00.000Z',
+            until: new Date('2026-01-12T00:00:00Z')
+        })
+    })
+
+    it('should fall back to the creation of the pull request if a release date is unknown', async () => {
+        server.use(http.get('https://pypi.org/pypi/test-package/1.0.1/json', () => new HttpResponse(null, { status: 404 })))
+        const config = { days: 3, ecosystems: {}, from: 'release' as const }
+
+        expect((await evaluateCooldown(config, 'pip', '2026-01-10T11:00:00Z', updates, now)).reason).toBe(
+            'Cooldown of 3 days since the pull request was opened ends at 2026-01-13T11:00:00.000Z'
+        )
+        expect((await evaluateCooldown(config, 'docker', '2026-01-10T11:00:00Z', updates, now)).reason).toBe(
+            'Cooldown of 3 days since the pull request was opened ends at 2026-01-13T11:00:00.000Z'
+        )
+    })
+
+    it('should fall back to the creation of the pull request if a registry does not respond', async () => {
+        const timeout = AbortSignal.timeout
+        const spy = vi.spyOn(AbortSignal, 'timeout').mockImplementation(() => timeout(10))
+        server.use(http.get('https://registry.npmjs.org/test-package', () => delay('infinite')))
+        const config = { days: 3, ecosystems: {}, from: 'release' as const }
+
+        try {
+            expect((await evaluateCooldown(config, 'npm_and_yarn', '2026-01-10T11:00:00Z', updates, now)).reason).toBe(
+                'Cooldown of 3 days since the pull request was opened ends at 2026-01-13T11:00:00.000Z'
+            )
+            expect(spy).toHaveBeenCalledWith(5000)
+        } finally {
+            spy.mockRestore()
+        }
+    })
+})
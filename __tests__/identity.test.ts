@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { identifyBot, isSteward, resolveIdentities } from '../src/identity.ts'
+
+// Test suite for recognizing the bot users
+describe('resolveIdentities', () => {
+    let mockOctokit: any
+
+    beforeEach(() => {
+        mockOctokit = {
+            rest: {
+                apps: {
+                    // A self-hosted copy of the app
+                    getAuthenticated: vi.fn().mockResolvedValue({ data: { slug: 'my-steward' } })
+                }
+            }
+        }
+    })
+
+    it('should derive the steward from the authenticated app', async () => {
+        const identities = await resolveIdentities(mockOctokit, undefined, {})
+
+        expect(identities.steward).toBe('my-steward[bot]')
+        expect(isSteward(identities, { login: 'my-steward[bot]', type: 'Bot' })).toBe(true)
+        expect(isSteward(identities, { login: 'dependabot-steward[bot]', type: 'Bot' })).toBe(false)
+    })
+
+    it('should recognize Dependabot by login and type', async () => {
+        const identities = await resolveIdentities(mockOctokit, undefined, {})
+        const branch = 'dependabot/npm_and_yarn/lodash-4.17.21'
+
+        expect(identifyBot(identities, { login: 'dependabot[bot]', type: 'Bot' }, branch)?.name).toBe('dependabot')
+        expect(identifyBot(identities, { login: 'dependabot[bot]', type: 'User' }, branch)).toBeUndefined()
+        expect(identifyBot(identities, { login: 'dependabot[bot]' }, branch)).toBeUndefined()
+        expect(identifyBot(identities, { login: 'octocat', type: 'User' }, branch)).toBeUndefined()
+        expect(identifyBot(identities, null, branch)).toBeUndefined()
+    })
+
+    it('should recognize other bots by login and branch prefix', async () => {
+        const identities = await resolveIdentities(mockOctokit, undefined, {})
+
+        expect(identifyBot(identities, { login: 'renovate[bot]', type: 'Bot' }, 'renovate/lodash-4.x')?.name).toBe('renovate')
+        expect(identifyBot(identities, { login: 'renovate[bot]', type: 'Bot' }, 'feature/lodash')).toBeUndefined()
+        expect(identifyBot(identities, { login: 'pre-commit-ci[bot]', type: 'Bot' }, 'pre-commit-ci-update-config')?.name).toBe('pre-commit-ci')
+    })
+
+    it('should accept overrides from the environment', async () => {
+        const identities = await resolveIdentities(mockOctokit, undefined, {
+            STEWARD_BOT_LOGIN: 'steward[bot]',
+            STEWARD_DEPENDABOT_LOGINS: 'dependabot[bot], ghes-dependabot[bot]',
+            STEWARD_RENOVATE_LOGINS: 'renovate-bot'
+        })
+
+        expect(identities).toEqual({
+            steward: 'steward[bot]',
+            bots: { dependabot: ['dependabot[bot]', 'ghes-dependabot[bot]'], renovate: ['renovate-bot'], 'pre-commit-ci': ['pre-commit-ci[bot]'] },
+            configured: ['dependabot', 'renovate']
+        })
+        // A self-hosted Renovate may run as a regular user
+        expect(identifyBot(identities, { login: 'renovate-bot', type: 'User' }, 'renovate/lodash-4.x')?.name).toBe('renovate')
+        // The default logins still require bot users
+        expect(identifyBot(identities, { login: 'pre-commit-ci[bot]', type: 'User' }, 'pre-commit-ci-update-config')).toBeUndefined()
+        expect(mockOctokit.rest.apps.getAuthenticated).not.toHaveBeenCalled()
+    })
+
+    it('should cache the identities per installation', async () => {
+        await resolveIdentities(mockOctokit, 101, {})
+        await resolveIdentities(mockOctokit, 101, {})
+        await resolveIdentities(mockOctokit, 102, {})
+
+        expect(mockOctokit.rest.apps.getAuthenticated).toHaveBeenCalledTimes(2)
+    })
+
+    it('should retry a failed lookup', async () => {
+        mockOctokit.rest.apps.getAuthenticated.mockRejectedValueOnce(new Error('Server Error'))
+
+        await expect(resolveIdentities(mockOctokit, 103, {})).rejects.toThrow('Server Error')
+        expect((await resolveIdentities(mockOctokit, 103, {})).steward).toBe('my-steward[bot]')
+    })
+})
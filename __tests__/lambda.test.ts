@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createLambdaHandler } from '../src/lambda.ts'
+
+// Test suite for the AWS Lambda entry point
+describe('createLambdaHandler', () => {
+    let mockProbot: any
+    const headers = { 'X-GitHub-Delivery': 'test-id', 'X-GitHub-Event': 'ping', 'X-Hub-Signature-256': 'sha256=test' }
+
+    beforeEach(() => {
+        mockProbot = {
+            load: vi.fn().mockResolvedValue(undefined),
+            webhooks: { verifyAndReceive: vi.fn().mockResolvedValue(undefined) },
+            log: { error: vi.fn() }
+        }
+    })
+
+    it('should receive a webhook and load the app only once', async () => {
+        const createProbot = vi.fn().mockResolvedValue(mockProbot)
+        const handler = createLambdaHandler(createProbot)
+
+        expect(await handler({ headers, body: '{"zen":"test"}' })).toEqual({ statusCode: 200, body: 'ok' })
+        expect(
+            await handler({
+                headers: { 'x-github-delivery': 'id', 'x-github-event': 'ping', 'x-hub-signature-256': 'sha256=test' },
+                body: 'e30=',
+                isBase64Encoded: true
+            })
+        ).toEqual({ statusCode: 200, body: 'ok' })
+
+        expect(mockProbot.webhooks.verifyAndReceive).toHaveBeenCalledWith({
+            id: 'test-id',
+            name: 'ping',
+            signature: 'sha256=test',
+            payload: '{"zen":"test"}'
+        })
+        expect(mockProbot.webhooks.verifyAndReceive).toHaveBeenLastCalledWith(expect.objectContaining({ payload: '{}' }))
+        expect(createProbot).toHaveBeenCalledTimes(1)
+        expect(mockProbot.load).toHaveBeenCalledTimes(1)
+    })
+
+    it('should reject requests that are not webhooks', async () => {
+        const handler = createLambdaHandler(async () => mockProbot)
+
+        expect(await handler({ headers: {}, body: '{}' })).toEqual({ statusCode: 400, body: 'Not a GitHub webhook' })
+    })
+
+    it('should reject webhooks with an invalid signature', async () => {
+        const error = Object.assign(new Error('[@octokit/webhooks] signature does not match event payload and secret'), { status: 400 })
+        mockProbot.webhooks.verifyAndReceive.mockRejectedValue(new AggregateError([error], error.message))
+        const handler = createLambdaHandler(async () => mockProbot)
+
+        expect(await handler({ headers, body: '{}' })).toEqual({ statusCode: 400, body: 'Invalid webhook' })
+    })
+
+    it('should report errors of the handlers as server errors', async () => {
+        const error = new Error('The signature of the commit could not be verified')
+        mockProbot.webhooks.verifyAndReceive.mockRejectedValue(new AggregateError([error], error.message))
+        const handler = createLambdaHandler(async () => mockProbot)
+
+        expect(await handler({ headers, body: '{}' })).toEqual({ statusCode: 500, body: 'Error' })
+    })
+
+    it('should retry a failed initialization on the next invocation', async () => {
+        const createProbot = vi.fn().mockRejectedValueOnce(new Error('Missing secrets')).mockResolvedValue(mockProbot)
+        const handler = createLambdaHandler(createProbot)
+
+        await expect(handler({ headers, body: '{}' })).rejects.toThrow('Missing secrets')
+        expect(await handler({ headers, body: '{}' })).toEqual({ statusCode: 200, body: 'ok' })
+    })
+})
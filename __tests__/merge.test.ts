@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { renderTemplate, selectMergeMethods } from '../src/merge.ts'
+
+// Test suite for the merge method selection
+describe('selectMergeMethods', () => {
+    it('should follow the repository settings without a preference', () => {
+        expect(selectMergeMethods({ allow_merge_commit: true, allow_squash_merge: true, allow_rebase_merge: true })).toEqual([
+            'merge',
+            'squash',
+            'rebase'
+        ])
+        expect(selectMergeMethods({ allow_merge_commit: false, allow_squash_merge: true })).toEqual(['squash'])
+    })
+
+    it('should try the preferred methods first and fall back to the other allowed ones', () => {
+        expect(selectMergeMethods({ allow_merge_commit: true, allow_squash_merge: true, allow_rebase_merge: true }, ['rebase', 'squash'])).toEqual([
+            'rebase',
+            'squash',
+            'merge'
+        ])
+    })
+
+    it('should skip preferred methods the repository does not allow', () => {
+        expect(selectMergeMethods({ allow_merge_commit: true, allow_squash_merge: false }, ['squash'])).toEqual(['merge'])
+    })
+
+    it('should return no methods if none is allowed', () => {
+        expect(selectMergeMethods({})).toEqual([])
+    })
+})
+
+// Test suite for the commit templates
+describe('renderTemplate', () => {
+    it('should replace the placeholders', () => {
+        expect(
+            renderTemplate(
+                'chore(deps): bump {dependency} from {from} to {to} (#{pr_number})',
+                { updates: [{ name: 'lodash', from: '4.17.20', to: '4.17.21' }] },
+                12
+            )
+        ).toBe('chore(deps): bump lodash from 4.17.20 to 4.17.21 (#12)')
+    })
+
+    it('should list every dependency of a grouped update', () => {
+        expect(
+            renderTemplate(
+                '{dependency}',
+                {
+                    group: 'npm-deps',
+                    updates: [{ name: 'lodash' }, { name: 'react' }]
+                },
+                1
+            )
+        ).toBe('lodash, react')
+    })
+
+    it('should leave unknown placeholders as they are', () => {
+        expect(renderTemplate('{dependency} {unknown}', { updates: [{ name: 'lodash' }] }, 1)).toBe('lodash {unknown}')
+    })
+})
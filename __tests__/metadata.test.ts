@@ -0,0 +1,265 @@
+import { describe, expect, it } from 'vitest'
+import { classifyUpdate, compareVersions, parseDependabotMessage, parsePreCommitMessage, parseRenovateMessage } from '../src/metadata.ts'
+
+// Builds a Dependabot commit message with the `updated-dependencies` trailers
+function commitMessage(title: string, ...trailers: string[]) {
+    return `${title}\n\nBumps something.\n\n---\nupdated-dependencies:\n${trailers.join('\n')}\n...\n\nSigned-off-by: dependabot[bot] <support@github.com>`
+}
+
+// Test suite for the Dependabot message parser
+describe('parseDependabotMessage', () => {
+    it('should parse an npm update', () => {
+        const title = 'Bump lodash from 4.17.20 to 4.17.21'
+
+        expect(
+            parseDependabotMessage({
+                title,
+                body: 'Bumps [lodash](https://github.com/lodash/lodash) from 4.17.20 to 4.17.21.\n- [Release notes](https://github.com/lodash/lodash/releases)',
+                commitMessage: commitMessage(
+                    title,
+                    '- dependency-name: lodash',
+                    '  dependency-version: 4.17.21',
+                    '  dependency-type: direct:production',
+                    '  update-type: version-update:semver-patch'
+                )
+            }).updates
+        ).toEqual([{ name: 'lodash', from: '4.17.20', to: '4.17.21', dependencyType: 'direct:production', updateType: 'patch' }])
+    })
+
+    it('should parse a scoped npm package with a prefixed title', () => {
+        const title = 'build(deps-dev): bump @types/node from 20.11.0 to 24.10.2'
+
+        expect(
+            parseDependabotMessage({
+                title,
+                commitMessage: commitMessage(
+                    title,
+                    '- dependency-name: "@types/node"',
+                    '  dependency-type: direct:development',
+                    '  update-type: version-update:semver-major'
+                )
+            }).updates
+        ).toEqual([{ name: '@types/node', from: '20.11.0', to: '24.10.2', dependencyType: 'direct:development', updateType: 'major' }])
+    })
+
+    it('should parse a NuGet update', () => {
+        expect(
+            parseDependabotMessage({
+                title: 'Bump Newtonsoft.Json from 12.0.3 to 13.0.1',
+                body: 'Bumps [Newtonsoft.Json](https://github.com/JamesNK/Newtonsoft.Json) from 12.0.3 to 13.0.1.'
+            }).updates
+        ).toEqual([{ name: 'Newtonsoft.Json', from: '12.0.3', to: '13.0.1', updateType: 'major' }])
+    })
+
+    it('should parse a pip update in a subdirectory', () => {
+        const title = 'Bump django from 4.2.1 to 4.2.2 in /requirements'
+
+        expect(
+            parseDependabotMessage({
+                title,
+                commitMessage: commitMessage(
+                    title,
+                    '- dependency-name: django',
+                    '  dependency-type: direct:production',
+                    '  update-type: version-update:semver-patch'
+                )
+            }).updates
+        ).toEqual([{ name: 'django', from: '4.2.1', to: '4.2.2', dependencyType: 'direct:production', updateType: 'patch' }])
+    })
+
+    it('should parse a Docker image tag update', () => {
+        expect(
+            parseDependabotMessage({ title: 'Bump node from 18-alpine to 20-alpine', body: 'Bumps node from 18-alpine to 20-alpine.' }).updates
+        ).toEqual([{ name: 'node', from: '18-alpine', to: '20-alpine', updateType: 'major' }])
+    })
+
+    it('should parse a GitHub Actions update', () => {
+        expect(parseDependabotMessage({ title: 'Bump actions/checkout from 5 to 6' }).updates).toEqual([
+            { name: 'actions/checkout', from: '5', to: '6', updateType: 'major' }
+        ])
+    })
+
+    it('should leave the update type of SHA-pinned actions undetermined', () => {
+        expect(parseDependabotMessage({ title: 'Bump actions/cache from 8e5e7e5 to 0c45773' }).updates).toEqual([
+            { name: 'actions/cache', from: '8e5e7e5', to: '0c45773', updateType: undefined }
+        ])
+    })
+
+    it('should parse a Go module update', () => {
+        const title = 'Bump github.com/stretchr/testify from 1.8.4 to 1.9.0'
+
+        expect(
+            parseDependabotMessage({
+                title,
+                commitMessage: commitMessage(
+                    title,
+                    '- dependency-name: github.com/stretchr/testify',
+                    '  dependency-type: direct:production',
+                    '  update-type: version-update:semver-minor'
+                )
+            }).updates
+        ).toEqual([{ name: 'github.com/stretchr/testify', from: '1.8.4', to: '1.9.0', dependencyType: 'direct:production', updateType: 'minor' }])
+    })
+
+    it('should parse a requirement update', () => {
+        expect(parseDependabotMessage({ title: 'Update rake requirement from ~> 10.0 to ~> 12.0' }).updates).toEqual([
+            { name: 'rake', from: '~> 10.0', to: '~> 12.0', updateType: 'major' }
+        ])
+    })
+
+    it('should parse every member of a grouped update', () => {
+        const title = 'Bump the npm-deps group across 1 directory with 3 updates'
+        const body = [
+            'Bumps the npm-deps group with 3 updates in the / directory: [lodash](https://github.com/lodash/lodash), [react](https://github.com/facebook/react) and [@types/node](https://github.com/DefinitelyTyped/DefinitelyTyped).',
+            '',
+            'Updates `lodash` from 4.17.20 to 4.17.21',
+            '- [Release notes](https://github.com/lodash/lodash/releases)',
+            '',
+            'Updates `react` from 18.3.1 to 19.0.0',
+            '',
+            'Updates `@types/node` from 24.10.1 to 24.10.2'
+        ].join('\n')
+
+        expect(
+            parseDependabotMessage({
+                title,
+                body,
+                commitMessage: commitMessage(
+                    title,
+                    '- dependency-name: lodash',
+                    '  dependency-type: direct:production',
+                    '  update-type: version-update:semver-patch',
+                    '  dependency-group: npm-deps',
+                    '- dependency-name: react',
+                    '  dependency-type: direct:production',
+                    '  update-type: version-update:semver-major',
+                    '  dependency-group: npm-deps',
+                    '- dependency-name: "@types/node"',
+                    '  dependency-type: direct:development',
+                    '  update-type: version-update:semver-patch',
+                    '  dependency-group: npm-deps'
+                )
+            })
+        ).toEqual({
+            group: 'npm-deps',
+            updates: [
+                { name: 'lodash', from: '4.17.20', to: '4.17.21', dependencyType: 'direct:production', updateType: 'patch' },
+                { name: 'react', from: '18.3.1', to: '19.0.0', dependencyType: 'direct:production', updateType: 'major' },
+                { name: '@types/node', from: '24.10.1', to: '24.10.2', dependencyType: 'direct:development', updateType: 'patch' }
+            ]
+        })
+    })
+
+    it('should parse a grouped update from the body alone', () => {
+        expect(
+            parseDependabotMessage({
+                title: 'Bump the actions group with 2 updates',
+                body: 'Updates `actions/checkout` from 5 to 6\n\nUpdates `actions/setup-node` from 6.0.0 to 6.1.0'
+            })
+        ).toEqual({
+            group: 'actions',
+            updates: [
+                { name: 'actions/checkout', from: '5', to: '6', updateType: 'major' },
+                { name: 'actions/setup-node', from: '6.0.0', to: '6.1.0', updateType: 'minor' }
+            ]
+        })
+    })
+
+    it('should return no updates for other pull requests', () => {
+        expect(parseDependabotMessage({ title: 'Fix typo', body: 'Some change' }).updates).toEqual([])
+    })
+})
+
+// Test suite for the Renovate message parser
+describe('parseRenovateMessage', () => {
+    it('should parse the updates from the table', () => {
+        const body = [
+            'This PR contains the following updates:',
+            '',
+            '| Package | Change | Age | Confidence |',
+            '|---|---|---|---|',
+            '| [lodash](https://lodash.com/) ([source](https://github.com/lodash/lodash)) | [`4.17.20` -> `4.17.21`](https://renovatebot.com/diffs/npm/lodash/4.17.20/4.17.21) | ![age](https://developer.mend.io/api/mc/badges/age/npm/lodash/4.17.21?slim=true) | ![confidence](https://developer.mend.io/api/mc/badges/confidence/npm/lodash/4.17.20/4.17.21?slim=true) |',
+            '| [@types/node](https://github.com/DefinitelyTyped/DefinitelyTyped) | [`20.11.0` → `22.0.0`](https://renovatebot.com/diffs/npm/@types%2fnode/20.11.0/22.0.0) | | |',
+            '',
+            '---',
+            '',
+            ' - [ ] <!-- rebase-check -->If you want to rebase/retry this PR, check this box'
+        ].join('\n')
+
+        expect(parseRenovateMessage({ title: 'Update dependencies', body })).toEqual({
+            ecosystem: 'npm_and_yarn',
+            updates: [
+                { name: 'lodash', from: '4.17.20', to: '4.17.21', updateType: 'patch' },
+                { name: '@types/node', from: '20.11.0', to: '22.0.0', updateType: 'major' }
+            ]
+        })
+    })
+
+    it('should use the update and type columns', () => {
+        const body = [
+            '| Package | Type | Update | Change |',
+            '|---|---|---|---|',
+            '| [actions/checkout](https://github.com/actions/checkout) | action | major | `v3` -> `v4` |',
+            '| [actions/cache](https://github.com/actions/cache) | action | digest | `8e5e7e5` -> `0c45773` |'
+        ].join('\n')
+
+        expect(parseRenovateMessage({ body }).updates).toEqual([
+            { name: 'actions/checkout', from: 'v3', to: 'v4', updateType: 'major', dependencyType: 'action' },
+            { name: 'actions/cache', from: '8e5e7e5', to: '0c45773', dependencyType: 'action' }
+        ])
+    })
+
+    it('should fall back to the title', () => {
+        expect(parseRenovateMessage({ title: 'chore(deps): update actions/checkout action to v4', body: 'No table' })).toEqual({
+            updates: [{ name: 'actions/checkout', to: 'v4' }]
+        })
+    })
+})
+
+// Test suite for the pre-commit.ci message parser
+describe('parsePreCommitMessage', () => {
+    it('should parse the hook updates', () => {
+        const body = [
+            '<!--pre-commit.ci start-->',
+            'updates:',
+            '- [github.com/psf/black: 23.1.0 → 23.3.0](https://github.com/psf/black/compare/23.1.0...23.3.0)',
+            '- [github.com/pycqa/flake8: 6.1.0 → 7.0.0](https://github.com/pycqa/flake8/compare/6.1.0...7.0.0)',
+            '<!--pre-commit.ci end-->'
+        ].join('\n')
+
+        expect(parsePreCommitMessage({ body })).toEqual({
+            ecosystem: 'pre_commit',
+            updates: [
+                { name: 'github.com/psf/black', from: '23.1.0', to: '23.3.0', updateType: 'minor' },
+                { name: 'github.com/pycqa/flake8', from: '6.1.0', to: '7.0.0', updateType: 'major' }
+            ]
+        })
+    })
+})
+
+// Test suite for the semver update classification
+describe('classifyUpdate', () => {
+    it('should classify semver updates', () => {
+        expect(classifyUpdate('1.2.3', '1.2.4')).toBe('patch')
+        expect(classifyUpdate('v1.2.3', 'v1.3.0')).toBe('minor')
+        expect(classifyUpdate('1.2.3', '2.0.0')).toBe('major')
+        expect(classifyUpdate('0.0.0-20220127200216-cd36cc0744dd', '0.7.0')).toBe('minor')
+    })
+
+    it('should not classify non-numeric versions', () => {
+        expect(classifyUpdate('latest', '1.0.0')).toBeUndefined()
+    })
+})
+
+// Test suite for the version comparison
+describe('compareVersions', () => {
+    it('should compare versions by their numbers', () => {
+        expect(compareVersions('3.9.4', '3.10')).toBeLessThan(0)
+        expect(compareVersions('v2.0.0', '1.9.9')).toBeGreaterThan(0)
+        expect(compareVersions('1.2', '1.2.0')).toBe(0)
+    })
+
+    it('should not compare non-numeric versions', () => {
+        expect(compareVersions('latest', '1.0.0')).toBeUndefined()
+    })
+})
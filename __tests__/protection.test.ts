@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { convertBranchProtection, getBranchRules } from '../src/protection.ts'
+
+// Test suite for reading the rules of a branch, with the classic branch protection fallback
+describe('getBranchRules', () => {
+    let mockOctokit: any
+    let server = 0 // The server version is cached per server, so every test has its own
+    const log = { info: vi.fn(), warn: vi.fn() } as any
+    const target = { owner: 'test-owner', repo: 'test-repo', branch: 'main' }
+
+    beforeEach(() => {
+        server++
+        mockOctokit = {
+            // A GitHub Enterprise Server version without the branch rules API by default
+            request: Object.assign(vi.fn().mockResolvedValue({ data: { installed_version: '3.9.4' } }), {
+                endpoint: { DEFAULTS: { baseUrl: `https://github-${server}.example.com/api/v3` } }
+            }),
+            rest: {
+                repos: {
+                    getBranchRules: vi.fn().mockResolvedValue({ data: [{ type: 'required_signatures', ruleset_id: 1 }] }),
+                    getBranchProtection: vi.fn().mockResolvedValue({ data: { required_linear_history: { enabled: true } } })
+                }
+            }
+        }
+    })
+
+    it('should read the branch rules on github.com', async () => {
+        mockOctokit.request.mockResolvedValue({ data: {} })
+
+        expect(await getBranchRules(mockOctokit, log, target)).toEqual([{ type: 'required_signatures', ruleset_id: 1 }])
+        expect(mockOctokit.rest.repos.getBranchProtection).not.toHaveBeenCalled()
+    })
+
+    it('should read the branch rules on servers with the API', async () => {
+        mockOctokit.request.mockResolvedValue({ data: { installed_version: '3.10.0' } })
+
+        expect(await getBranchRules(mockOctokit, log, target)).toEqual([{ type: 'required_signatures', ruleset_id: 1 }])
+    })
+
+    it('should fall back to the classic branch protection, reading the server version once', async () => {
+        expect(await getBranchRules(mockOctokit, log, target)).toEqual([{ type: 'required_linear_history' }])
+        expect(await getBranchRules(mockOctokit, log, target)).toEqual([{ type: 'required_linear_history' }])
+        expect(mockOctokit.request).toHaveBeenCalledTimes(1)
+        expect(mockOctokit.request).toHaveBeenCalledWith('GET /meta')
+        expect(mockOctokit.rest.repos.getBranchRules).not.toHaveBeenCalled()
+    })
+
+    it('should not fall back to the classic branch protection if a repository is not found', async () => {
+        mockOctokit.request.mockResolvedValue({ data: {} })
+        mockOctokit.rest.repos.getBranchRules.mockRejectedValueOnce(Object.assign(new Error('Not Found'), { status: 404 }))
+
+        await expect(getBranchRules(mockOctokit, log, target)).rejects.toThrow('Not Found')
+        expect(await getBranchRules(mockOctokit, log, target)).toEqual([{ type: 'required_signatures', ruleset_id: 1 }])
+        expect(mockOctokit.rest.repos.getBranchProtection).not.toHaveBeenCalled()
+    })
+
+    it('should read the server version again after a failure', async () => {
+        mockOctokit.request.mockRejectedValueOnce(new Error('Service Unavailable'))
+
+        await expect(getBranchRules(mockOctokit, log, target)).rejects.toThrow('Service Unavailable')
+        expect(await getBranchRules(mockOctokit, log, target)).toEqual([{ type: 'required_linear_history' }])
+    })
+
+    it('should treat an unprotected branch as having no rules', async () => {
+        mockOctokit.rest.repos.getBranchProtection.mockRejectedValue(Object.assign(new Error('Branch not protected'), { status: 404 }))
+
+        expect(await getBranchRules(mockOctokit, log, target)).toEqual([])
+    })
+})
+
+// Test suite for converting classic branch protection to branch rules
+describe('convertBranchProtection', () => {
+    it('should convert every supported setting', () => {
+        expect(
+            convertBranchProtection({
+                required_status_checks: { strict: true, contexts: ['build', 'lint'], checks: [{ context: 'build', app_id: 15368 }] },
+                required_pull_request_reviews: { dismiss_stale_reviews: true, require_code_owner_reviews: true, required_approving_review_count: 2 },
+                required_conversation_resolution: { enabled: true },
+                required_signatures: { enabled: true },
+                lock_branch: { enabled: true }
+            } as any)
+        ).toEqual([
+            {
+                type: 'required_status_checks',
+                parameters: { required_status_checks: [{ context: 'build', integration_id: 15368 }], strict_required_status_checks_policy: true }
+            },
+            {
+                type: 'pull_request',
+                parameters: {
+                    dismiss_stale_reviews_on_push: true,
+                    require_code_owner_review: true,
+                    require_last_push_approval: false,
+                    required_approving_review_count: 2,
+                    required_review_thread_resolution: true
+                }
+            },
+            { type: 'required_signatures' },
+            { type: 'update' }
+        ])
+    })
+
+    it('should read the contexts of older servers', () => {
+        expect(convertBranchProtection({ required_status_checks: { contexts: ['build'] } } as any)).toEqual([
+            {
+                type: 'required_status_checks',
+                parameters: { required_status_checks: [{ context: 'build' }], strict_required_status_checks_policy: false }
+            }
+        ])
+    })
+})
@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { retryFailedChecks } from '../src/retry.ts'
+
+// Test suite for re-running failed required checks
+describe('retryFailedChecks', () => {
+    let mockOctokit: any
+    const log = { info: vi.fn(), error: vi.fn() } as any
+    const target = { owner: 'test-owner', repo: 'test-repo', headSha: 'test-sha' }
+
+    beforeEach(() => {
+        mockOctokit = {
+            rest: {
+                checks: {
+                    // A single failed run of each check by default, 'build' from GitHub Actions and 'deploy' from another app
+                    listForRef: vi.fn(async ({ check_name }: { check_name: string }) => ({
+                        data: {
+                            check_runs:
+                                check_name === 'build'
+                                    ? [{ id: 1, name: 'build', check_suite: { id: 10 }, app: { slug: 'github-actions' } }]
+                                    : check_name === 'deploy'
+                                      ? [{ id: 2, name: 'deploy', check_suite: { id: 20 }, app: { slug: 'netlify' } }]
+                                      : []
+                        }
+                    })),
+                    rerequestSuite: vi.fn().mockResolvedValue({})
+                },
+                actions: {
+                    listWorkflowRunsForRepo: vi.fn().mockResolvedValue({ data: { total_count: 1, workflow_runs: [{ id: 100 }] } }),
+                    reRunWorkflowFailedJobs: vi.fn().mockResolvedValue({})
+                }
+            },
+            paginate: vi.fn(async (method, params) => (await method(params)).data.check_runs) // Mock pagination with a single page
+        }
+    })
+
+    it('should re-run the failed jobs of a GitHub Actions workflow run', async () => {
+        expect(await retryFailedChecks(mockOctokit, log, target, ['build'], 1)).toEqual(['build'])
+        expect(mockOctokit.rest.actions.listWorkflowRunsForRepo).toHaveBeenCalledWith(expect.objectContaining({ check_suite_id: 10 }))
+        expect(mockOctokit.rest.actions.reRunWorkflowFailedJobs).toHaveBeenCalledWith({ owner: 'test-owner', repo: 'test-repo', run_id: 100 })
+        expect(mockOctokit.rest.checks.rerequestSuite).not.toHaveBeenCalled()
+    })
+
+    it('should re-request the check suite of other apps', async () => {
+        expect(await retryFailedChecks(mockOctokit, log, target, ['deploy'], 1)).toEqual(['deploy'])
+        expect(mockOctokit.rest.checks.rerequestSuite).toHaveBeenCalledWith({ owner: 'test-owner', repo: 'test-repo', check_suite_id: 20 })
+    })
+
+    it('should stop once a check has been re-run the configured number of times', async () => {
+        mockOctokit.rest.checks.listForRef.mockResolvedValue({
+            data: {
+                check_runs: [
+                    { id: 1, name: 'build', check_suite: { id: 10 }, app: { slug: 'github-actions' } },
+                    { id: 3, name: 'build', check_suite: { id: 10 }, app: { slug: 'github-actions' } }
+                ]
+            }
+        })
+
+        expect(await retryFailedChecks(mockOctokit, log, target, ['build'], 1)).toEqual([])
+        expect(await retryFailedChecks(mockOctokit, log, target, ['build'], 2)).toEqual(['build'])
+        expect(mockOctokit.rest.actions.reRunWorkflowFailedJobs).toHaveBeenCalledTimes(1)
+    })
+
+    it('should skip failed commit statuses and checks that cannot be re-run', async () => {
+        mockOctokit.rest.checks.rerequestSuite.mockRejectedValue(Object.assign(new Error('Forbidden'), { status: 403 }))
+
+        expect(await retryFailedChecks(mockOctokit, log, target, ['ci/jenkins', 'deploy'], 1)).toEqual([])
+    })
+})
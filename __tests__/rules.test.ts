@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest'
+import { defaultConfig } from '../src/config.ts'
+import { evaluatePolicy } from '../src/policy.ts'
+import { describeRule, findMatchingRule, matchGlob } from '../src/rules.ts'
+
+// Test suite for the glob matching of dependency names
+describe('matchGlob', () => {
+    it('should match wildcards', () => {
+        expect(matchGlob('react*', 'react')).toBe(true)
+        expect(matchGlob('react*', 'react-dom')).toBe(true)
+        expect(matchGlob('@types/*', '@types/node')).toBe(true)
+        expect(matchGlob('actions/?ache', 'actions/cache')).toBe(true)
+    })
+
+    it('should not match other names', () => {
+        expect(matchGlob('react*', 'preact')).toBe(false)
+        expect(matchGlob('@types/*', 'types-node')).toBe(false)
+        expect(matchGlob('lodash.merge', 'lodashxmerge')).toBe(false)
+    })
+
+    it('should ignore case', () => {
+        expect(matchGlob('newtonsoft.*', 'Newtonsoft.Json')).toBe(true)
+    })
+})
+
+// Test suite for the ordered rule engine
+describe('findMatchingRule', () => {
+    const rules = [
+        { dependency: 'react*', update_types: ['major' as const], action: 'deny' as const, reason: 'React majors need a migration' },
+        { dependency: '@types/*', action: 'allow' as const },
+        { ecosystems: ['github_actions'], action: 'allow' as const }
+    ]
+
+    it('should return the first matching rule', () => {
+        const match = findMatchingRule(rules, { name: 'react-dom', updateType: 'major' }, 'npm_and_yarn')
+
+        expect(match?.index).toBe(0)
+        expect(match && describeRule(match)).toBe('rule #1 (deny react* major)')
+    })
+
+    it('should match by ecosystem', () => {
+        expect(findMatchingRule(rules, { name: 'actions/checkout', updateType: 'major' }, 'github_actions')?.index).toBe(2)
+        expect(findMatchingRule(rules, { name: 'actions/checkout', updateType: 'major' }, undefined)).toBeUndefined()
+    })
+
+    it('should return undefined if no rule matches', () => {
+        expect(findMatchingRule(rules, { name: 'react', updateType: 'minor' }, 'npm_and_yarn')).toBeUndefined()
+    })
+})
+
+// Test suite for the merge policy with rules
+describe('evaluatePolicy', () => {
+    const config = {
+        ...defaultConfig,
+        rules: [
+            { dependency: 'react*', update_types: ['major' as const], action: 'deny' as const, reason: 'React majors need a migration' },
+            { dependency: '@types/*', action: 'allow' as const }
+        ]
+    }
+
+    it('should deny an update matching a deny rule with its reason', () => {
+        expect(evaluatePolicy(config, [{ name: 'react', from: '18.3.1', to: '19.0.0', updateType: 'major' }], 'npm_and_yarn')).toEqual({
+            allowed: false,
+            reason: 'react 18.3.1 → 19.0.0 is denied by rule #1 (deny react* major): React majors need a migration',
+            rule: 'rule #1 (deny react* major)',
+            blocked: [expect.objectContaining({ allowed: false })]
+        })
+    })
+
+    it('should allow an update matching an allow rule regardless of its update type', () => {
+        expect(evaluatePolicy(config, [{ name: '@types/node', updateType: 'major' }], 'npm_and_yarn')).toMatchObject({
+            allowed: true,
+            rule: 'rule #2 (allow @types/*)'
+        })
+    })
+
+    it('should fall back to the allowed update types', () => {
+        expect(evaluatePolicy(config, [{ name: 'lodash', updateType: 'minor' }], 'npm_and_yarn').allowed).toBe(true)
+        expect(evaluatePolicy(config, [{ name: 'lodash', updateType: 'major' }], 'npm_and_yarn').allowed).toBe(false)
+        expect(evaluatePolicy(config, [{ name: 'lodash' }], 'npm_and_yarn').allowed).toBe(false)
+    })
+
+    it('should treat an unknown update type like a major update', () => {
+        expect(evaluatePolicy({ ...config, update_types: ['major'] }, [{ name: 'lodash' }], 'npm_and_yarn').reason).toBe(
+            'lodash is an allowed unknown update'
+        )
+    })
+    it('should list every grouped update that blocked the merge', () => {
+        const decision = evaluatePolicy(
+            config,
+            [
+                { name: 'react', updateType: 'major' },
+                { name: '@types/react', updateType: 'major' },
+                { name: 'lodash', updateType: 'major' }
+            ],
+            'npm_and_yarn'
+        )
+
+        expect(decision.allowed).toBe(false)
+        expect(decision.reason).toBe('2 of 3 updated dependencies are not allowed (react, lodash)')
+        expect(decision.blocked.map(b => b.update.name)).toEqual(['react', 'lodash'])
+    })
+
+    it('should allow a grouped update if every member is allowed', () => {
+        expect(
+            evaluatePolicy(
+                config,
+                [
+                    { name: 'react', updateType: 'minor' },
+                    { name: '@types/react', updateType: 'major' }
+                ],
+                'npm_and_yarn'
+            ).allowed
+        ).toBe(true)
+    })
+})
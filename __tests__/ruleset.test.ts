@@ -0,0 +1,178 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { evaluateBranchRules } from '../src/ruleset.ts'
+
+// Test suite for the branch rule evaluation
+describe('evaluateBranchRules', () => {
+    let mockOctokit: any
+    const target = { owner: 'test-owner', repo: 'test-repo', pull_number: 1, headSha: 'test-sha', approvals: 0 }
+    const methods = ['merge', 'squash', 'rebase'] as const
+
+    // Creates a pull_request rule with the given parameters
+    function pullRequestRule(parameters: object): any {
+        return {
+            type: 'pull_request',
+            ruleset_id: 1,
+            parameters: {
+                dismiss_stale_reviews_on_push: false,
+                require_code_owner_review: false,
+                require_last_push_approval: false,
+                required_approving_review_count: 0,
+                required_review_thread_resolution: false,
+                ...parameters
+            }
+        }
+    }
+
+    beforeEach(() => {
+        mockOctokit = {
+            rest: {
+                repos: {
+                    // The app may not bypass the ruleset by default
+                    getRepoRuleset: vi.fn().mockResolvedValue({ data: { id: 1, current_user_can_bypass: 'never' } }),
+                    // No deployments by default
+                    listDeployments: vi.fn().mockResolvedValue({ data: [] }),
+                    listDeploymentStatuses: vi.fn().mockResolvedValue({ data: [] })
+                }
+            },
+            // No review threads by default
+            graphql: vi.fn().mockResolvedValue({ repository: { pullRequest: { reviewThreads: { nodes: [] } } } })
+        }
+    })
+
+    it('should be mergeable without branch rules', async () => {
+        expect(await evaluateBranchRules(mockOctokit, target, [], [...methods])).toEqual({
+            mergeable: true,
+            methods: ['merge', 'squash', 'rebase'],
+            requiredChecks: [],
+            mergeQueue: false,
+            unsatisfied: [],
+            pending: [],
+            bypassed: []
+        })
+    })
+
+    it('should collect the required status checks', async () => {
+        const rules: any[] = [
+            { type: 'required_status_checks', parameters: { required_status_checks: [{ context: 'build' }, { context: 'lint' }] } },
+            {
+                type: 'required_status_checks',
+                parameters: { required_status_checks: [{ context: 'build' }, { context: 'build', integration_id: 15368 }] }
+            }
+        ]
+
+        expect((await evaluateBranchRules(mockOctokit, target, rules, [...methods])).requiredChecks).toEqual([
+            { context: 'build' },
+            { context: 'lint' },
+            { context: 'build', integration_id: 15368 }
+        ])
+    })
+
+    it('should choose merge methods compatible with linear history and the allowed merge methods', async () => {
+        const rules: any[] = [{ type: 'required_linear_history' }, pullRequestRule({ allowed_merge_methods: ['merge', 'rebase'] })]
+
+        expect(await evaluateBranchRules(mockOctokit, target, rules, [...methods])).toMatchObject({ mergeable: true, methods: ['rebase'] })
+    })
+
+    it('should not be mergeable if no merge method complies with the branch rules', async () => {
+        const rules: any[] = [{ type: 'required_linear_history' }]
+
+        expect(await evaluateBranchRules(mockOctokit, target, rules, ['merge'])).toMatchObject({
+            mergeable: false,
+            unsatisfied: ['No merge method allowed by the repository complies with the branch rules']
+        })
+    })
+
+    it('should not be mergeable if only bypass actors may update the branch', async () => {
+        const rules: any[] = [{ type: 'update', ruleset_id: 1 }]
+
+        expect(await evaluateBranchRules(mockOctokit, target, rules, [...methods])).toMatchObject({
+            mergeable: false,
+            reason: 'Some branch rules cannot be satisfied by the app',
+            unsatisfied: ['Only allows bypass actors to update the branch']
+        })
+    })
+
+    it('should require the merge queue regardless of the merge methods', async () => {
+        const rules: any[] = [{ type: 'merge_queue', ruleset_id: 1 }, { type: 'required_linear_history' }]
+
+        expect(await evaluateBranchRules(mockOctokit, target, rules, ['merge'])).toMatchObject({ mergeable: true, mergeQueue: true, unsatisfied: [] })
+    })
+
+    it('should ignore rules of a ruleset the app may bypass', async () => {
+        mockOctokit.rest.repos.getRepoRuleset.mockResolvedValue({ data: { id: 1, current_user_can_bypass: 'pull_requests_only' } })
+        const rules: any[] = [
+            { type: 'merge_queue', ruleset_id: 1 },
+            { type: 'update', ruleset_id: 1 }
+        ]
+
+        expect(await evaluateBranchRules(mockOctokit, target, rules, [...methods])).toMatchObject({
+            mergeable: true,
+            mergeQueue: false,
+            unsatisfied: [],
+            bypassed: ['Requires pull requests to be merged through the merge queue', 'Only allows bypass actors to update the branch']
+        })
+        expect(mockOctokit.rest.repos.getRepoRuleset).toHaveBeenCalledTimes(1)
+    })
+
+    it("should count the app's own approval towards the required reviews", async () => {
+        const oneReview = await evaluateBranchRules(mockOctokit, target, [pullRequestRule({ required_approving_review_count: 1 })], [...methods])
+        const twoReviews = await evaluateBranchRules(mockOctokit, target, [pullRequestRule({ required_approving_review_count: 2 })], [...methods])
+
+        expect(oneReview.pending).toEqual([])
+        expect(twoReviews).toMatchObject({ mergeable: true, reason: 'Some branch rules are not yet satisfied' })
+        expect(twoReviews.pending).toEqual(["Requires 2 approving reviews, including the app's"])
+    })
+
+    it('should wait for a code owner review and resolved conversations', async () => {
+        let reviewDecision = 'REVIEW_REQUIRED'
+        mockOctokit.graphql.mockImplementation(async (query: string) =>
+            query.includes('reviewDecision')
+                ? { repository: { pullRequest: { reviewDecision } } }
+                : { repository: { pullRequest: { reviewThreads: { nodes: [{ isResolved: true }, { isResolved: false }] } } } }
+        )
+        const rules: any[] = [pullRequestRule({ require_code_owner_review: true, required_review_thread_resolution: true })]
+
+        expect((await evaluateBranchRules(mockOctokit, target, rules, [...methods])).pending).toEqual([
+            'Requires an approving review from a code owner',
+            'Requires all conversations to be resolved (1 unresolved)'
+        ])
+        // The human approval is not from an owner of the changed files
+        expect((await evaluateBranchRules(mockOctokit, { ...target, approvals: 1 }, rules, [...methods])).pending).toEqual([
+            'Requires an approving review from a code owner',
+            'Requires all conversations to be resolved (1 unresolved)'
+        ])
+
+        reviewDecision = 'APPROVED'
+        expect((await evaluateBranchRules(mockOctokit, { ...target, approvals: 1 }, rules, [...methods])).pending).toEqual([
+            'Requires all conversations to be resolved (1 unresolved)'
+        ])
+        expect(mockOctokit.graphql).toHaveBeenCalledWith(expect.stringContaining('reviewDecision'), {
+            owner: 'test-owner',
+            repo: 'test-repo',
+            number: 1
+        })
+    })
+
+    it('should not wait for a code owner review if the app may bypass the ruleset', async () => {
+        mockOctokit.rest.repos.getRepoRuleset.mockResolvedValue({ data: { id: 1, current_user_can_bypass: 'always' } })
+        const rules: any[] = [pullRequestRule({ require_code_owner_review: true })]
+
+        expect(await evaluateBranchRules(mockOctokit, target, rules, [...methods])).toMatchObject({
+            pending: [],
+            bypassed: ['Requires an approving review from a code owner']
+        })
+    })
+
+    it('should wait for the required deployments of the head commit', async () => {
+        mockOctokit.rest.repos.listDeployments.mockImplementation(async ({ environment }: { environment: string }) => ({
+            data: environment === 'staging' ? [{ id: 7 }] : []
+        }))
+        mockOctokit.rest.repos.listDeploymentStatuses.mockResolvedValue({ data: [{ state: 'success' }] })
+        const rules: any[] = [{ type: 'required_deployments', parameters: { required_deployment_environments: ['staging', 'production'] } }]
+
+        expect((await evaluateBranchRules(mockOctokit, target, rules, [...methods])).pending).toEqual([
+            'Requires a successful deployment to production'
+        ])
+        expect(mockOctokit.rest.repos.listDeployments).toHaveBeenCalledWith(expect.objectContaining({ sha: 'test-sha', environment: 'staging' }))
+    })
+})
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest'
+import { isAuthorizedSweep, readBaseUrl, readPort } from '../src/runtime.ts'
+
+// Test suite for the settings shared by the entry points
+describe('runtime', () => {
+    it('should point at the API of GitHub Enterprise Server', () => {
+        expect(readBaseUrl({})).toBeUndefined()
+        expect(readBaseUrl({ GHE_HOST: 'github.example.com' })).toBe('https://github.example.com/api/v3')
+        expect(readBaseUrl({ GHE_HOST: 'github.internal:8080', GHE_PROTOCOL: 'http' })).toBe('http://github.internal:8080/api/v3')
+    })
+
+    it('should authorize sweeps with the bearer token', () => {
+        expect(isAuthorizedSweep('Bearer secret-token', 'secret-token')).toBe(true)
+        expect(isAuthorizedSweep('Bearer wrong-token', 'secret-token')).toBe(false)
+        expect(isAuthorizedSweep(undefined, 'secret-token')).toBe(false)
+    })
+
+    it('should listen on port 3000 by default', () => {
+        expect(readPort({})).toBe(3000)
+        expect(readPort({ PORT: '8080' })).toBe(8080)
+    })
+})
@@ -0,0 +1,48 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { envSecretsProvider, fileSecretsProvider, loadCredentials, SecretsError, selectSecretsProvider } from '../src/secrets.ts'
+
+// Test suite for the secrets providers
+describe('secrets', () => {
+    const env = { APP_ID: '1', PRIVATE_KEY: 'test-key', WEBHOOK_SECRET: 'test-secret' }
+
+    it('should load the credentials from environment variables', async () => {
+        expect(await loadCredentials(envSecretsProvider(env))).toEqual({ appId: '1', privateKey: 'test-key', webhookSecret: 'test-secret' })
+    })
+
+    it('should load the credentials from files', async () => {
+        const directory = await mkdtemp(join(tmpdir(), 'steward-secrets-'))
+
+        try {
+            for (const [name, value] of Object.entries(env)) {
+                await writeFile(join(directory, name), `${value}\n`)
+            }
+
+            expect(await loadCredentials(selectSecretsProvider({ STEWARD_SECRETS_PROVIDER: 'file', STEWARD_SECRETS_DIR: directory }))).toEqual({
+                appId: '1',
+                privateKey: 'test-key',
+                webhookSecret: 'test-secret'
+            })
+            expect(await fileSecretsProvider(join(directory, 'missing')).get('APP_ID')).toBeUndefined()
+        } finally {
+            await rm(directory, { recursive: true })
+        }
+    })
+
+    it('should report missing secrets', async () => {
+        await expect(loadCredentials(envSecretsProvider({ APP_ID: '1' }))).rejects.toThrow(
+            'Missing secrets PRIVATE_KEY, WEBHOOK_SECRET in the env secrets provider.'
+        )
+    })
+
+    it('should select the provider configured by the environment', () => {
+        expect(selectSecretsProvider({}).name).toBe('env')
+        expect(selectSecretsProvider({ STEWARD_SECRETS_PROVIDER: 'gcp', STEWARD_GCP_PROJECT: '123' }).name).toBe('gcp')
+        expect(() => selectSecretsProvider({ STEWARD_SECRETS_PROVIDER: 'gcp' })).toThrow(SecretsError)
+        expect(() => selectSecretsProvider({ STEWARD_SECRETS_PROVIDER: 'vault' })).toThrow(
+            'STEWARD_SECRETS_PROVIDER must be one of `env`, `file`, `gcp`, but is `vault`.'
+        )
+    })
+})
@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { sweepPullRequests } from '../src/sweep.ts'
+
+// Test suite for the scheduled sweep of open Dependabot pull requests
+describe('sweepPullRequests', () => {
+    let mockOctokit: any
+    let app: any
+
+    beforeEach(() => {
+        mockOctokit = {
+            rest: {
+                apps: {
+                    getAuthenticated: vi.fn().mockResolvedValue({ data: { slug: 'dependabot-steward' } }),
+                    listInstallations: vi.fn().mockResolvedValue({ data: [{ id: 1 }] }),
+                    listReposAccessibleToInstallation: vi.fn().mockResolvedValue({ data: [{ owner: { login: 'test-owner' }, name: 'test-repo' }] })
+                },
+                rateLimit: {
+                    // Plenty of requests left by default
+                    get: vi.fn().mockResolvedValue({ data: { resources: { core: { remaining: 5000 } } } })
+                },
+                pulls: {
+                    // An open Dependabot PR and an open PR from someone else
+                    list: vi.fn().mockResolvedValue({
+                        data: [
+                            { number: 1, user: { login: 'dependabot[bot]', type: 'Bot' }, head: { ref: 'dependabot/npm_and_yarn/lodash-4.17.21' } },
+                            { number: 2, user: { login: 'octocat', type: 'User' }, head: { ref: 'feature' } },
+                            // Renovate is not trusted by default
+                            { number: 3, user: { login: 'renovate[bot]', type: 'Bot' }, head: { ref: 'renovate/lodash-4.x' } }
+                        ]
+                    }),
+                    // The Dependabot PR is closed by now, so its evaluation stops early
+                    get: vi.fn().mockResolvedValue({
+                        data: { number: 1, state: 'closed', merged: false, user: { login: 'dependabot[bot]', type: 'Bot' }, base: {}, head: {} }
+                    })
+                }
+            },
+            config: {
+                // No configuration file by default
+                get: vi.fn().mockResolvedValue({ config: {}, files: [] })
+            },
+            paginate: vi.fn(async (method, params) => (await method(params)).data) // Mock pagination with a single page
+        }
+        app = { auth: vi.fn().mockResolvedValue(mockOctokit), log: { info: vi.fn(), warn: vi.fn(), error: vi.fn() } }
+    })
+
+    it('should evaluate the pull requests of the trusted bots in every installation', async () => {
+        const summary = await sweepPullRequests(app)
+
+        expect(app.auth).toHaveBeenCalledWith(1)
+        expect(mockOctokit.rest.pulls.get).toHaveBeenCalledTimes(1)
+        expect(summary).toEqual({
+            installations: 1,
+            repositories: 1,
+            outcomes: { merged: 0, auto_merge: 0, queued: 0, deferred: 0, dry_run: 0, skipped: 1, failed: 0 },
+            failed: [],
+            failedInstallations: [],
+            rateLimited: []
+        })
+    })
+
+    it('should leave repositories the app is disabled for alone', async () => {
+        mockOctokit.config.get.mockResolvedValue({ config: { enabled: false }, files: [] })
+
+        expect((await sweepPullRequests(app)).outcomes.skipped).toBe(0)
+        expect(mockOctokit.rest.pulls.list).not.toHaveBeenCalled()
+    })
+
+    it('should continue with the next repository after an error', async () => {
+        mockOctokit.rest.apps.listReposAccessibleToInstallation.mockResolvedValue({
+            data: [
+                { owner: { login: 'test-owner' }, name: 'broken-repo' },
+                { owner: { login: 'test-owner' }, name: 'test-repo' }
+            ]
+        })
+        mockOctokit.config.get.mockRejectedValueOnce(Object.assign(new Error('Server Error'), { status: 500 }))
+
+        const summary = await sweepPullRequests(app)
+
+        expect(summary.failed).toEqual(['test-owner/broken-repo'])
+        expect(summary.outcomes.skipped).toBe(1)
+        expect(app.log.error).toHaveBeenCalled()
+    })
+
+    it('should continue with the next pull request after an error', async () => {
+        mockOctokit.rest.pulls.list.mockResolvedValue({
+            data: [
+                { number: 1, user: { login: 'dependabot[bot]', type: 'Bot' }, head: { ref: 'dependabot/npm_and_yarn/lodash-4.17.21' } },
+                { number: 4, user: { login: 'dependabot[bot]', type: 'Bot' }, head: { ref: 'dependabot/npm_and_yarn/react-19.0.0' } }
+            ]
+        })
+        mockOctokit.rest.pulls.get.mockRejectedValueOnce(Object.assign(new Error('Server Error'), { status: 500 }))
+
+        const summary = await sweepPullRequests(app)
+
+        expect(mockOctokit.rest.pulls.get).toHaveBeenCalledTimes(2)
+        expect(summary.outcomes).toMatchObject({ skipped: 1, failed: 1 })
+        expect(summary.failed).toEqual(['test-owner/test-repo'])
+    })
+
+    it('should leave an installation for the next sweep when its rate limit runs low', async () => {
+        mockOctokit.rest.rateLimit.get.mockResolvedValue({ data: { resources: { core: { remaining: 10 } } } })
+
+        const summary = await sweepPullRequests(app)
+
+        expect(summary).toMatchObject({ repositories: 0, rateLimited: [1] })
+        expect(mockOctokit.rest.pulls.list).not.toHaveBeenCalled()
+    })
+
+    it('should sweep the other installations if one fails', async () => {
+        mockOctokit.rest.apps.listInstallations.mockResolvedValue({ data: [{ id: 1 }, { id: 2 }] })
+        // The first installation is suspended
+        app.auth.mockImplementation(async (id?: number) => {
+            if (id === 1) {
+                throw Object.assign(new Error('This installation has been suspended'), { status: 403 })
+            }
+
+            return mockOctokit
+        })
+
+        const summary = await sweepPullRequests(app)
+
+        expect(summary).toMatchObject({ installations: 2, repositories: 1, failedInstallations: [1], rateLimited: [] })
+        expect(summary.outcomes.skipped).toBe(1)
+        expect(app.log.error).toHaveBeenCalledWith(expect.any(Error), 'Failed to sweep installation 1.')
+    })
+
+    it('should stop sweeping an installation once its rate limit is exceeded', async () => {
+        mockOctokit.rest.apps.listReposAccessibleToInstallation.mockResolvedValue({
+            data: [
+                { owner: { login: 'test-owner' }, name: 'test-repo' },
+                { owner: { login: 'test-owner' }, name: 'other-repo' }
+            ]
+        })
+        mockOctokit.rest.pulls.list.mockRejectedValue(
+            Object.assign(new Error('API rate limit exceeded'), { status: 403, response: { headers: { 'x-ratelimit-remaining': '0' } } })
+        )
+
+        const summary = await sweepPullRequests(app)
+
+        expect(summary).toMatchObject({ repositories: 1, failed: [], rateLimited: [1] })
+        expect(mockOctokit.rest.pulls.list).toHaveBeenCalledTimes(1)
+    })
+})
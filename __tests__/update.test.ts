@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { dependabotAdapter, preCommitAdapter, renovateAdapter } from '../src/bots.ts'
+import { updateStaleBranch } from '../src/update.ts'
+
+// Test suite for bringing stale pull request branches up to date
+describe('updateStaleBranch', () => {
+    let mockOctokit: any
+    const log = { info: vi.fn() } as any
+    const target = { owner: 'test-owner', repo: 'test-repo', pull_number: 1, headSha: 'test-sha' }
+
+    beforeEach(() => {
+        mockOctokit = {
+            rest: {
+                pulls: {
+                    updateBranch: vi.fn().mockResolvedValue({}),
+                    update: vi.fn().mockResolvedValue({})
+                },
+                issues: {
+                    // No comments by default
+                    listComments: vi.fn().mockResolvedValue({ data: [] }),
+                    createComment: vi.fn().mockResolvedValue({})
+                }
+            },
+            paginate: vi.fn(async (method, params) => (await method(params)).data) // Mock pagination with a single page
+        }
+    })
+
+    it('should leave an up-to-date branch alone', async () => {
+        expect(await updateStaleBranch(mockOctokit, log, target, 'clean', 'rebase', dependabotAdapter)).toBeUndefined()
+        expect(await updateStaleBranch(mockOctokit, log, target, 'blocked', 'update', dependabotAdapter)).toBeUndefined()
+        expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled()
+    })
+
+    it('should ask Dependabot to rebase once per head commit', async () => {
+        expect(await updateStaleBranch(mockOctokit, log, target, 'behind', 'rebase', dependabotAdapter)).toBe(
+            'Pull request branch is behind the base branch, asked Dependabot to rebase it'
+        )
+        expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledWith({
+            owner: 'test-owner',
+            repo: 'test-repo',
+            issue_number: 1,
+            body: '@dependabot rebase\n\n<!-- dependabot-steward:rebase test-sha -->'
+        })
+
+        mockOctokit.rest.issues.listComments.mockResolvedValue({
+            data: [{ body: '@dependabot rebase\n\n<!-- dependabot-steward:rebase test-sha -->' }]
+        })
+        await updateStaleBranch(mockOctokit, log, target, 'behind', 'rebase', dependabotAdapter)
+
+        expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledTimes(1)
+    })
+
+    it('should update a branch that is behind', async () => {
+        expect(await updateStaleBranch(mockOctokit, log, target, 'behind', 'update', dependabotAdapter)).toBe(
+            'Pull request branch is behind the base branch, updating it'
+        )
+        expect(mockOctokit.rest.pulls.updateBranch).toHaveBeenCalledWith({
+            owner: 'test-owner',
+            repo: 'test-repo',
+            pull_number: 1,
+            expected_head_sha: 'test-sha'
+        })
+    })
+
+    it('should ask Dependabot to resolve conflicts even in update mode', async () => {
+        expect(await updateStaleBranch(mockOctokit, log, target, 'dirty', 'update', dependabotAdapter)).toBe(
+            'Pull request branch has conflicts, asked Dependabot to rebase it'
+        )
+        expect(mockOctokit.rest.pulls.updateBranch).not.toHaveBeenCalled()
+    })
+
+    it('should only report a stale branch if disabled', async () => {
+        expect(await updateStaleBranch(mockOctokit, log, target, 'dirty', 'none', dependabotAdapter)).toBe('Pull request branch has conflicts')
+        expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled()
+    })
+
+    it('should ask Renovate to rebase through the checkbox in the body', async () => {
+        const body = 'This PR contains the following updates:\n\n- [ ] <!-- rebase-check -->If you want to rebase/retry this PR, check this box'
+
+        expect(await updateStaleBranch(mockOctokit, log, { ...target, body }, 'dirty', 'rebase', renovateAdapter)).toBe(
+            'Pull request branch has conflicts, asked Renovate to rebase it'
+        )
+        expect(mockOctokit.rest.pulls.update).toHaveBeenCalledWith({
+            owner: 'test-owner',
+            repo: 'test-repo',
+            pull_number: 1,
+            body: 'This PR contains the following updates:\n\n- [x] <!-- rebase-check -->If you want to rebase/retry this PR, check this box'
+        })
+    })
+
+    it('should only report conflicts if Renovate has rebasing disabled', async () => {
+        expect(await updateStaleBranch(mockOctokit, log, { ...target, body: 'No checkbox' }, 'dirty', 'rebase', renovateAdapter)).toBe(
+            'Pull request branch has conflicts'
+        )
+        expect(mockOctokit.rest.pulls.update).not.toHaveBeenCalled()
+    })
+
+    it('should update the branch of a bot that cannot be asked to rebase', async () => {
+        expect(await updateStaleBranch(mockOctokit, log, target, 'behind', 'rebase', preCommitAdapter)).toBe(
+            'Pull request branch is behind the base branch, updating it'
+        )
+        expect(await updateStaleBranch(mockOctokit, log, target, 'dirty', 'rebase', preCommitAdapter)).toBe('Pull request branch has conflicts')
+        expect(mockOctokit.rest.pulls.updateBranch).toHaveBeenCalledTimes(1)
+    })
+})
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import type { ScheduleConfig } from '../src/config.ts'
+import { evaluateSchedule } from '../src/window.ts'
+
+// Test suite for merge windows and freeze periods
+describe('evaluateSchedule', () => {
+    const schedule: ScheduleConfig = {
+        timezone: 'Europe/Berlin',
+        windows: [{ days: ['mon', 'tue', 'wed', 'thu', 'fri'], start: '09:00', end: '17:00' }],
+        freezes: [{ from: '2026-12-20', to: '2027-01-05', reason: 'Holiday freeze' }]
+    }
+
+    it('should allow merging at any time without windows', () => {
+        expect(evaluateSchedule({ timezone: 'UTC', windows: [], freezes: [] }, new Date('2026-01-10T03:00:00Z'))).toEqual({ open: true })
+    })
+
+    it('should allow merging within a window in its time zone', () => {
+        // Friday 16:30 in Berlin
+        expect(evaluateSchedule(schedule, new Date('2026-01-09T15:30:00Z'))).toEqual({ open: true })
+    })
+
+    it('should defer merging outside the windows', () => {
+        // Friday 17:30 in Berlin, but 16:30 in UTC
+        expect(evaluateSchedule(schedule, new Date('2026-01-09T16:30:00Z'))).toEqual({
+            open: false,
+            reason: 'Outside the merge windows (mon, tue, wed, thu, fri 09:00–17:00 Europe/Berlin)'
+        })
+        // Saturday noon
+        expect(evaluateSchedule(schedule, new Date('2026-01-10T11:00:00Z')).open).toBe(false)
+    })
+
+    it('should defer merging during a freeze period', () => {
+        // Monday 10:00 in Berlin, within the window
+        expect(evaluateSchedule(schedule, new Date('2027-01-04T09:00:00Z'))).toEqual({
+            open: false,
+            reason: 'Merges are frozen until 2027-01-05 (Holiday freeze)'
+        })
+        // The last frozen day ends at midnight in Berlin
+        expect(evaluateSchedule(schedule, new Date('2027-01-05T23:30:00Z'))).toEqual({ open: false, reason: expect.stringMatching(/^Outside/) })
+    })
+})
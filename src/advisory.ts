@@ -0,0 +1,182 @@
+import type { Context, Logger } from 'probot'
+import { type AdvisorySeverity, advisorySeverities, type SecurityConfig } from './config.ts'
+import { compareVersions, type DependencyUpdate } from './metadata.ts'
+
+type GlobalAdvisory = Awaited<ReturnType<Context['octokit']['rest']['securityAdvisories']['getGlobalAdvisory']>>['data']
+type Vulnerability = NonNullable<GlobalAdvisory['vulnerabilities']>[number]
+
+const maxLookups = 10 // Advisories looked up per pull request, as release notes may mention many unrelated ones
+
+// "GHSA-29mw-wpgm-hmr9" and "CVE-2021-23337", e.g. in the body of a security update
+const ghsaPattern = /\bGHSA(?:-[0-9a-z]{4}){3}\b/gi
+const cvePattern = /\bCVE-\d{4}-\d{4,}\b/gi
+// A constraint of a vulnerable version range, e.g. ">= 1.0.0" in ">= 1.0.0, < 1.2.3"
+const constraintPattern = /^\s*(<=|>=|<|>|=)?\s*(\S+)\s*$/
+
+const operators: Record<string, (comparison: number) => boolean> = {
+    '<': c => c < 0,
+    '<=': c => c <= 0,
+    '>': c => c > 0,
+    '>=': c => c >= 0,
+    '=': c => c === 0
+}
+
+/**
+ * A vulnerability advisory from the GitHub Advisory Database.
+ */
+export interface SecurityAdvisory {
+    /** The GHSA ID, e.g. `GHSA-29mw-wpgm-hmr9`. */
+    ghsaId: string
+    /** The CVE ID, if the advisory has one. */
+    cveId?: string
+    /** The severity of the advisory. */
+    severity: AdvisorySeverity | 'unknown'
+    /** A short description of the vulnerability. */
+    summary: string
+    /** The names of the updated packages whose vulnerability the update fixes. */
+    packages: string[]
+}
+
+/**
+ * Whether a pull request is a security update, and the advisories it fixes.
+ */
+export interface SecurityDecision {
+    /** Whether the security policy applies, i.e. the pull request fixes an advisory of at least the minimum severity. */
+    applies: boolean
+    /** The advisories of the updated dependencies the pull request references. */
+    advisories: SecurityAdvisory[]
+    /** A human-readable explanation if the pull request fixes advisories. */
+    reason?: string
+}
+
+/**
+ * Checks whether a pull request is a security update, i.e. whether it references advisories of the GitHub Advisory
+ * Database (by GHSA or CVE ID) that it fixes, and whether the security policy applies. An update fixes an advisory if
+ * the version it updates from is vulnerable and the version it updates to is patched. Other advisories, e.g. mentioned
+ * in release notes, are ignored, as are advisories that can't be looked up. The advisories are only looked up if the
+ * security policy differs from the regular policy.
+ * @param octokit The authenticated Octokit instance.
+ * @param log The logger.
+ * @param config The security configuration.
+ * @param texts The texts of the pull request that may reference advisories, e.g. its title and body.
+ * @param updates The dependency updates of the pull request.
+ * @returns The security decision.
+ */
+export async function evaluateSecurity(
+    octokit: Context['octokit'],
+    log: Logger,
+    config: SecurityConfig,
+    texts: (string | null | undefined)[],
+    updates: DependencyUpdate[]
+): Promise<SecurityDecision> {
+    const advisories: SecurityAdvisory[] = []
+
+    if (!config.update_types && config.cooldown && config.schedule) {
+        return { applies: false, advisories }
+    }
+
+    for (const id of parseAdvisoryIds(texts).slice(0, maxLookups)) {
+        // A GHSA ID and the CVE ID of the same advisory may both be referenced
+        if (advisories.some(a => a.ghsaId === id || a.cveId === id)) {
+            continue
+        }
+
+        const advisory = await lookupAdvisory(octokit, log, id)
+        const packages = updates.filter(u => advisory?.vulnerabilities?.some(v => fixesVulnerability(v, u))).map(u => u.name)
+
+        if (advisory && packages.length > 0) {
+            advisories.push({
+                ghsaId: advisory.ghsa_id,
+                ...(advisory.cve_id ? { cveId: advisory.cve_id } : {}),
+                severity: advisory.severity,
+                summary: advisory.summary,
+                packages
+            })
+        }
+    }
+
+    if (advisories.length === 0) {
+        return { applies: false, advisories }
+    }
+
+    const severity = advisories.map(a => a.severity).reduce((a, b) => (rankSeverity(a) >= rankSeverity(b) ? a : b))
+    const ids = advisories.map(a => a.ghsaId).join(', ')
+
+    if (rankSeverity(severity) < rankSeverity(config.min_severity)) {
+        return { applies: false, advisories, reason: `Fixes ${ids} of ${severity} severity, below the minimum of ${config.min_severity}` }
+    }
+
+    return { applies: true, advisories, reason: `Security update fixing ${ids} of ${severity} severity` }
+}
+
+/**
+ * Extracts the GHSA and CVE IDs referenced by the texts of a pull request.
+ * @param texts The texts, e.g. the title and body.
+ * @returns The IDs in their canonical case, GHSA IDs first, without duplicates.
+ */
+export function parseAdvisoryIds(texts: (string | null | undefined)[]): string[] {
+    const text = texts.filter(t => !!t).join('\n')
+    // GHSA IDs are lower case apart from the prefix, CVE IDs upper case
+    const ids = [
+        ...[...text.matchAll(ghsaPattern)].map(m => `GHSA-${m[0].slice(5).toLowerCase()}`),
+        ...[...text.matchAll(cvePattern)].map(m => m[0].toUpperCase())
+    ]
+    return [...new Set(ids)]
+}
+
+/**
+ * Describes an advisory for the report.
+ * @param advisory The advisory.
+ * @returns The description, e.g. `GHSA-29mw-wpgm-hmr9 (high): Regular Expression Denial of Service in lodash`.
+ */
+export function describeAdvisory(advisory: SecurityAdvisory): string {
+    return `${advisory.ghsaId} (${advisory.severity}): ${advisory.summary}`
+}
+
+async function lookupAdvisory(octokit: Context['octokit'], log: Logger, id: string): Promise<GlobalAdvisory | undefined> {
+    try {
+        return id.startsWith('GHSA-')
+            ? (await octokit.rest.securityAdvisories.getGlobalAdvisory({ ghsa_id: id })).data
+            : (await octokit.rest.securityAdvisories.listGlobalAdvisories({ cve_id: id, per_page: 1 })).data[0]
+    } catch (e: unknown) {
+        // Unknown advisories, servers without the Advisory Database (e.g. older GHES versions), missing permissions,
+        // rate limits and server errors; the pull request is then treated like a routine update
+        if (e instanceof Error && 'status' in e) {
+            if (e.status !== 404) {
+                log.warn(e, `Failed to look up the advisory ${id}, ignoring it.`)
+            }
+
+            return undefined
+        }
+
+        throw e
+    }
+}
+
+function fixesVulnerability(vulnerability: Vulnerability, update: DependencyUpdate): boolean {
+    const { package: vulnerablePackage, vulnerable_version_range: range, first_patched_version: patched } = vulnerability
+
+    if (vulnerablePackage?.name?.toLowerCase() !== update.name.toLowerCase() || !range || !patched || !update.from || !update.to) {
+        return false
+    }
+
+    return satisfiesRange(update.from, range) && (compareVersions(patched, update.to) ?? 1) <= 0
+}
+
+// Vulnerable version ranges are comma-separated constraints that must all be satisfied, e.g. ">= 1.0.0, < 1.2.3"
+function satisfiesRange(version: string, range: string): boolean {
+    return range.split(',').every(constraint => {
+        const match = constraintPattern.exec(constraint)
+
+        if (!match) {
+            return false
+        }
+
+        const comparison = compareVersions(version, match[2])
+        return comparison !== undefined && operators[match[1] ?? '='](comparison)
+    })
+}
+
+function rankSeverity(severity: AdvisorySeverity | 'unknown'): number {
+    return (advisorySeverities as readonly string[]).indexOf(severity)
+}
@@ -1,7 +1,41 @@
-import type { Probot } from 'probot'
+import type { Context, Probot } from 'probot'
+import { describeAdvisory, evaluateSecurity, type SecurityDecision } from './advisory.ts'
+import type { BotAdapter } from './bots.ts'
+import { type CheckEvaluation, evaluateChecks } from './checks.ts'
+import { ConfigError, configPath, isDryRun, loadConfig, type StewardConfig } from './config.ts'
+import { evaluateCooldown } from './cooldown.ts'
+import { supportsMergeQueue } from './features.ts'
+import { type BotIdentities, identifyBot, isSteward, resolveIdentities } from './identity.ts'
+import { enableAutoMerge, enqueuePullRequest, mergePullRequest, renderTemplate, selectMergeMethods } from './merge.ts'
+import type { DependencyMetadata } from './metadata.ts'
+import { evaluatePolicy } from './policy.ts'
+import { getBranchRules } from './protection.ts'
+import { checkRunName, type Evaluation, publishReport, upsertComment } from './report.ts'
+import { retryFailedChecks } from './retry.ts'
+import { evaluateBranchRules } from './ruleset.ts'
+import { updateStaleBranch } from './update.ts'
+import { evaluateSchedule } from './window.ts'
 
-export const dependabotUserId = 49699333 // GitHub ID for the Dependabot bot
-export const stewardUserId = 241759641 // GitHub ID for the Steward bot (this app)
+export type { Evaluation } from './report.ts'
+
+type PullRequest = Awaited<ReturnType<Context['octokit']['rest']['pulls']['get']>>['data']
+
+/**
+ * What a pull request updates, according to the bot that created it.
+ */
+interface BotUpdate {
+    /** The bot that created the pull request. */
+    bot: BotAdapter
+    /** The updated dependencies. */
+    metadata: DependencyMetadata
+    /** Whether the pull request is a security update. */
+    security: SecurityDecision
+}
+
+/**
+ * The parts of a webhook context an evaluation needs. The sweep provides them without a webhook.
+ */
+export type EvaluationContext = Pick<Context, 'octokit' | 'log'> & { payload?: { installation?: { id: number } } }
 
 /**
  * The main function for the Probot app.
@@ -17,159 +51,615 @@ export function appFn(app: Probot): void {
         const repo = payload.repository.name
         context.log.info(`Received check_suite.completed event for ${owner}/${repo}`)
         const suite = payload.check_suite // The completed check suite
-        const pr = suite.pull_requests.pop() // Get the associated Pull Request
+        const prs = suite.pull_requests // The associated Pull Requests, e.g. several PRs sharing the head commit
+
+        // The suite of the app's own report must not trigger another evaluation
+        if (suite.app?.slug && isSteward(await identitiesFor(context), { login: `${suite.app.slug}[bot]` })) {
+            return
+        }
 
         // If no PR is associated with the check suite, exit
-        if (!pr) {
+        if (prs.length === 0) {
             context.log.warn('No pull request found in the check suite.')
             return
         }
 
-        const headBranch = pr.head.ref // Head branch of the PR
-        const pull_number = pr.number // Store the PR number
-        const octokit = context.octokit.rest // Octokit instance for making GitHub API calls
+        await evaluatePullRequests(
+            context,
+            owner,
+            repo,
+            prs.map(pr => pr.number)
+        )
+    })
+
+    // Listen for 'status' events
+    // This event is triggered when a commit status is reported through the legacy Statuses API (e.g. Jenkins, CircleCI)
+    app.on('status', async context => {
+        const payload = context.payload
+        const owner = payload.repository.owner.login
+        const repo = payload.repository.name
+        context.log.info(`Received status event (${payload.context}: ${payload.state}) for ${owner}/${repo}`)
+
+        // A pending status can't make a PR mergeable
+        if (payload.state === 'pending') {
+            return
+        }
+
+        // Find the open PRs whose head is the commit the status was reported for
+        const prs = (await context.octokit.rest.repos.listPullRequestsAssociatedWithCommit({ owner, repo, commit_sha: payload.sha })).data.filter(
+            pr => pr.state === 'open' && pr.head.sha === payload.sha
+        )
+
+        if (prs.length === 0) {
+            context.log.warn(`No open pull request found for commit ${payload.sha}.`)
+            return
+        }
+
+        await evaluatePullRequests(
+            context,
+            owner,
+            repo,
+            prs.map(pr => pr.number)
+        )
+    })
+
+    // Listen for 'check_run.completed' events
+    // This event is triggered for each check run, e.g. when a single re-run check completes without a new check suite
+    app.on('check_run.completed', async context => {
+        const payload = context.payload
+        const owner = payload.repository.owner.login
+        const repo = payload.repository.name
+
+        // The app's own report must not trigger another evaluation
+        if (payload.check_run.name === checkRunName) {
+            return
+        }
+
+        context.log.info(`Received check_run.completed event (${payload.check_run.name}) for ${owner}/${repo}`)
+
+        await evaluatePullRequests(
+            context,
+            owner,
+            repo,
+            payload.check_run.pull_requests.map(pr => pr.number)
+        )
+    })
+
+    // Listen for 'pull_request.opened', 'pull_request.synchronize' and 'pull_request.reopened' events
+    // A bot's PR may already be mergeable when it is opened or rebased, e.g. if the repository has no CI
+    app.on(['pull_request.opened', 'pull_request.synchronize', 'pull_request.reopened'], async context => {
+        const payload = context.payload
+        const owner = payload.repository.owner.login
+        const repo = payload.repository.name
+        context.log.info(`Received pull_request.${payload.action} event for ${owner}/${repo}`)
+
+        await evaluatePullRequest(context, owner, repo, payload.pull_request.number)
+    })
+
+    // Listen for 'pull_request_review.submitted' events
+    // A human approval may satisfy a review requirement of the branch rules
+    app.on('pull_request_review.submitted', async context => {
+        const payload = context.payload
+        const owner = payload.repository.owner.login
+        const repo = payload.repository.name
+
+        // Only approvals from someone other than the steward can make the PR mergeable
+        if (payload.review.state !== 'approved' || isSteward(await identitiesFor(context), payload.review.user)) {
+            return
+        }
+
+        context.log.info(`Received pull_request_review.submitted event for ${owner}/${repo}`)
+        await evaluatePullRequest(context, owner, repo, payload.pull_request.number)
+    })
 
-        // TODO: Implement .steward.yml configuation file
+    // Listen for 'pull_request.closed' events
+    // This event is triggered when a pull request is merged or closed, including by GitHub's native auto-merge
+    app.on('pull_request.closed', async context => {
+        const pr = context.payload.pull_request
+        const owner = context.payload.repository.owner.login
+        const repo = context.payload.repository.name
 
-        // Fetch repository metadata to determine allowed merge methods
-        const repoMetadata = (await octokit.repos.get({ owner, repo })).data
-        let merge_method: 'merge' | 'squash' | 'rebase'
+        // Only PRs of dependency bots are of interest
+        if (!identifyBot(await identitiesFor(context), pr.user, pr.head.ref)) {
+            return
+        }
 
-        // Determine the preferred merge method based on repository settings
-        if (repoMetadata.allow_merge_commit) {
-            merge_method = 'merge'
-        } else if (repoMetadata.allow_squash_merge) {
-            merge_method = 'squash'
-        } else if (repoMetadata.allow_rebase_merge) {
-            merge_method = 'rebase'
+        // In dry-run mode, record what humans did so that it can be compared to what the steward would have done
+        if (await isDryRunRepository(context, owner, repo)) {
+            context.log.info(
+                { dryRun: { owner, repo, pull_number: pr.number, head_sha: pr.head.sha, merged: pr.merged, merged_by: pr.merged_by?.login ?? null } },
+                `Pull request #${pr.number} in ${owner}/${repo} was ${pr.merged ? `merged by ${pr.merged_by?.login ?? 'unknown'}` : 'closed without being merged'} (dry run).`
+            )
+            return
+        }
+
+        // Only PRs approved by the steward are of interest
+        if (!(await isApprovedBySteward(context, owner, repo, pr.number))) {
+            return
+        }
+
+        // Verify the outcome of the merge the steward requested
+        if (pr.merged) {
+            context.log.info(`Pull request #${pr.number} in ${owner}/${repo} was merged by ${pr.merged_by?.login ?? 'unknown'}.`)
         } else {
-            // If no merge method is allowed, something is wrong with repo settings
-            throw new Error('No allowed merge method found for the repository.')
+            context.log.warn(`Pull request #${pr.number} in ${owner}/${repo} was closed without being merged.`)
         }
+    })
 
-        // Asynchronously process the merge logic
-        const processMerge = await (async () => {
-            // Ensure the head and base repositories are the same (i.e., not a fork)
-            if (pr.base.repo.id !== pr.head.repo.id) {
-                context.log.warn(`Pull request #${pull_number} is from a fork, skipping auto-merge.`)
-                return false
-            }
+    // Listen for 'merge_group.destroyed' events
+    // This event is triggered when a merge group of the merge queue was merged, or removed from the queue
+    app.on('merge_group.destroyed', async context => {
+        const payload = context.payload
+        const pull_number = parseMergeGroupPullNumber(payload.merge_group.head_ref)
 
-            const prReviewsData = (await octokit.pulls.listReviews({ owner, repo, pull_number })).data
+        if (!payload.repository || pull_number === undefined) {
+            return
+        }
 
-            // Check if the PR was reviewed
-            if (prReviewsData.some(r => r.user?.id === stewardUserId)) {
-                context.log.warn(`Pull request #${pull_number} is already reviewed by steward, skipping auto-merge.`)
-                return false
-            }
+        const owner = payload.repository.owner.login
+        const repo = payload.repository.name
+        context.log.info(`Received merge_group.destroyed event (${payload.reason ?? 'unknown'}) for ${owner}/${repo}`)
 
-            const prData = (await octokit.pulls.get({ owner, repo, pull_number })).data
+        const prData = (await context.octokit.rest.pulls.get({ owner, repo, pull_number })).data
 
-            // Check if the PR was merged
-            if (prData.merged) {
-                context.log.warn(`Pull request #${pull_number} is already merged, skipping auto-merge.`)
-                return false
-            }
+        // Only PRs of dependency bots the steward added to the queue are of interest
+        if (
+            !identifyBot(await identitiesFor(context), prData.user, prData.head.ref) ||
+            !(await isApprovedBySteward(context, owner, repo, pull_number))
+        ) {
+            return
+        }
 
-            // Check if the PR was created by Dependabot (user ID 49699333 is Dependabot's ID)
-            if (prData.user.id !== dependabotUserId) {
-                context.log.warn(`Pull request #${pull_number} is not from Dependabot, skipping auto-merge.`)
-                return false
-            }
+        const evaluation: Evaluation =
+            payload.reason === 'merged'
+                ? { pull_number, outcome: 'merged', reason: 'Merged by the merge queue' }
+                : {
+                      pull_number,
+                      outcome: 'failed',
+                      reason: `Removed from the merge queue${payload.reason === 'invalidated' ? ' after an earlier entry was removed' : ''}`
+                  }
+        context.log.info(`Pull request #${pull_number}: ${evaluation.outcome} (${evaluation.reason}).`)
 
-            // Get all check suites for the head branch
-            const headSuitesData = (await octokit.checks.listSuitesForRef({ owner, repo, ref: headBranch })).data
+        let config: StewardConfig
 
-            // If there are no check suites, consider it passed (no checks to fail)
-            if (headSuitesData.total_count === 0) {
-                return true
+        try {
+            config = await loadConfig(context.octokit, owner, repo)
+        } catch (e: unknown) {
+            if (!(e instanceof ConfigError)) {
+                throw e
             }
 
-            // Filter for valid check suites that have check runs
-            const validSuites = headSuitesData.check_suites.filter(cs => cs.latest_check_runs_count > 0)
+            // The invalid configuration was already reported when the pull request was evaluated
+            return
+        }
 
-            // If no valid check suites, consider it passed
-            if (validSuites.length === 0) {
-                return true
-            }
+        await publishReport(context.octokit, context.log, { owner, repo, pull_number, head_sha: prData.head.sha }, config.report, evaluation)
+    })
+}
 
-            // Check if any valid check suite is not completed
-            if (validSuites.some(cs => cs.status !== 'completed')) {
-                context.log.warn(`Pull request #${pull_number}: Some check suites are not yet completed, skipping auto-merge.`)
-                return false
-            }
+/**
+ * Extracts the pull request number from the head ref of a merge group,
+ * e.g. `refs/heads/gh-readonly-queue/main/pr-123-<sha>`.
+ * @param headRef The head ref of the merge group.
+ * @returns The pull request number, or undefined if the ref is not a merge queue ref.
+ */
+export function parseMergeGroupPullNumber(headRef: string): number | undefined {
+    const match = /\/gh-readonly-queue\/.+\/pr-(\d+)-[0-9a-f]+$/.exec(headRef)
+    return match ? Number(match[1]) : undefined
+}
 
-            const baseBranch = pr.base.ref // Base branch of the PR
-            // Get required status checks from branch protection rules
-            const requiredChecks = (await octokit.repos.getBranchRules({ owner, repo, branch: baseBranch })).data
-                .filter(r => r.type === 'required_status_checks')
-                .flatMap(r => {
-                    if (!r.parameters) {
-                        return []
-                    }
-                    return r.parameters.required_status_checks.map(rsc => rsc.context)
-                })
-
-            // If no required checks are configured, consider it passed
-            if (requiredChecks.length === 0) {
-                return true
-            }
+/**
+ * Checks whether the steward has approved a pull request, i.e. whether it decided to merge it.
+ * @param context The webhook context providing the authenticated Octokit instance.
+ * @param owner The repository owner.
+ * @param repo The repository name.
+ * @param pull_number The pull request number.
+ * @returns Whether the pull request has a review by the steward.
+ */
+async function isApprovedBySteward(context: EvaluationContext, owner: string, repo: string, pull_number: number): Promise<boolean> {
+    const identities = await identitiesFor(context)
+    const prReviewsData = (await context.octokit.rest.pulls.listReviews({ owner, repo, pull_number })).data
+    return prReviewsData.some(r => isSteward(identities, r.user))
+}
 
-            // Fetch all check runs for valid suites and filter for successful/skipped/neutral ones
-            const passedChecks = (
-                await Promise.all(
-                    validSuites.map(async vs => {
-                        const p = await context.octokit.request({ url: vs.check_runs_url, method: 'GET' })
-                        const checkRuns = p.data.check_runs as {
-                            name: string
-                            conclusion:
-                                | 'cancelled'
-                                | 'success'
-                                | 'failure'
-                                | 'neutral'
-                                | 'skipped'
-                                | 'timed_out'
-                                | 'action_required'
-                                | 'startup_failure'
-                                | 'stale'
-                                | null
-                        }[]
-
-                        return checkRuns
-                            .filter(cr => cr.conclusion === 'success' || cr.conclusion === 'skipped' || cr.conclusion === 'neutral')
-                            .map(cr => cr.name)
-                    })
-                )
-            ).flat()
-
-            const passedChecksSet = new Set(passedChecks)
-            // Check if all required checks have passed
-            const allRequiredChecksPassed = requiredChecks.every(rc => passedChecksSet.has(rc))
-
-            if (!allRequiredChecksPassed) {
-                context.log.warn(`Pull request #${pull_number}: Not all required checks have passed, skipping auto-merge.`)
-                return false
-            }
+/**
+ * Resolves the bot identities of the installation the context belongs to.
+ * @param context The webhook context providing the authenticated Octokit instance and the installation.
+ * @returns The bot identities.
+ */
+function identitiesFor(context: EvaluationContext): Promise<BotIdentities> {
+    return resolveIdentities(context.octokit, context.payload?.installation?.id)
+}
 
-            return true // All conditions met for merging
-        })()
+/**
+ * Checks whether the app is in dry-run mode for a repository.
+ * @param context The webhook context providing the authenticated Octokit instance.
+ * @param owner The repository owner.
+ * @param repo The repository name.
+ * @returns Whether dry-run mode is enabled; false if the configuration is invalid.
+ */
+async function isDryRunRepository(context: Pick<Context, 'octokit'>, owner: string, repo: string): Promise<boolean> {
+    try {
+        return isDryRun(await loadConfig(context.octokit, owner, repo))
+    } catch (e: unknown) {
+        if (!(e instanceof ConfigError)) {
+            throw e
+        }
 
-        // If all merge conditions are met, approve and merge the PR
-        if (processMerge) {
-            if (!pull_number) {
-                // This should ideally not happen if processMerge is true, but for type safety
-                throw new Error('Pull request number is undefined after successful processing.')
-            }
+        // The invalid configuration was already reported when the pull request was evaluated
+        return false
+    }
+}
 
-            // Approve the pull request
-            await octokit.pulls.createReview({ owner, repo, pull_number, event: 'APPROVE' })
-            // Merge the pull request using the determined merge method
-            try {
-                await octokit.pulls.merge({ owner, repo, pull_number, merge_method })
-                context.log.info(`Successfully merged pull request #${pull_number} using ${merge_method} method.`)
-            } catch (e: unknown) {
-                context.log.error(e)
-            }
+/**
+ * Evaluates several pull requests independently of each other, e.g. all pull requests of a check suite.
+ * An error while evaluating one pull request doesn't prevent the others from being evaluated;
+ * the errors are rethrown together once all pull requests have been evaluated.
+ * @param context The webhook context providing the authenticated Octokit instance and the logger.
+ * @param owner The repository owner.
+ * @param repo The repository name.
+ * @param pull_numbers The pull request numbers.
+ * @returns The outcome of each evaluation.
+ */
+export async function evaluatePullRequests(context: EvaluationContext, owner: string, repo: string, pull_numbers: number[]): Promise<Evaluation[]> {
+    const evaluations: Evaluation[] = []
+    const errors: unknown[] = []
+
+    for (const pull_number of new Set(pull_numbers)) {
+        try {
+            const evaluation = await evaluatePullRequest(context, owner, repo, pull_number)
+            context.log.info(`Pull request #${pull_number}: ${evaluation.outcome} (${evaluation.reason}).`)
+            evaluations.push(evaluation)
+        } catch (e: unknown) {
+            context.log.error(e, `Pull request #${pull_number}: Evaluation failed.`)
+            evaluations.push({ pull_number, outcome: 'failed', reason: e instanceof Error ? e.message : String(e) })
+            errors.push(e)
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new AggregateError(errors, `Failed to evaluate ${errors.length} of ${evaluations.length} pull requests.`)
+    }
+
+    return evaluations
+}
+
+/**
+ * Evaluates a pull request and, if all conditions are met, approves and merges it.
+ * This is shared by all webhook events that may make the pull request of a dependency bot mergeable.
+ * @param context The webhook context providing the authenticated Octokit instance and the logger.
+ * @param owner The repository owner.
+ * @param repo The repository name.
+ * @param pull_number The pull request number.
+ * @returns The outcome of the evaluation.
+ */
+export async function evaluatePullRequest(context: EvaluationContext, owner: string, repo: string, pull_number: number): Promise<Evaluation> {
+    const octokit = context.octokit.rest // Octokit instance for making GitHub API calls
+
+    // Logs why the pull request is not merged
+    const skip = (reason: string): Evaluation => {
+        context.log.warn(`Pull request #${pull_number}: ${reason}, skipping auto-merge.`)
+        return { pull_number, outcome: 'skipped', reason }
+    }
+
+    const prData = (await octokit.pulls.get({ owner, repo, pull_number })).data
+
+    // Ensure the head and base repositories are the same (i.e., not a fork)
+    if (prData.base.repo?.id !== prData.head.repo?.id) {
+        return skip('Pull request is from a fork')
+    }
+
+    // Check if the PR was merged
+    if (prData.merged) {
+        return skip('Pull request is already merged')
+    }
+
+    // Check if the PR was closed
+    if (prData.state !== 'open') {
+        return skip('Pull request is closed')
+    }
+
+    const identities = await identitiesFor(context)
+
+    const bot = identifyBot(identities, prData.user, prData.head.ref)
+
+    // Check if the PR was created by a dependency bot
+    if (!bot) {
+        return skip('Pull request is not from a dependency bot')
+    }
+
+    const prReviewsData = (await octokit.pulls.listReviews({ owner, repo, pull_number })).data
+
+    // Check if the PR was reviewed
+    if (prReviewsData.some(r => isSteward(identities, r.user))) {
+        return skip('Pull request is already reviewed by steward')
+    }
+
+    let config: StewardConfig // Per-repository configuration
+
+    // Load the per-repository configuration from the default branch
+    try {
+        config = await loadConfig(context.octokit, owner, repo)
+    } catch (e: unknown) {
+        if (!(e instanceof ConfigError)) {
+            throw e
         }
+
+        context.log.error(`Pull request #${pull_number}: ${e.message}`)
+        // Let the maintainers know instead of silently skipping the PR
+        await upsertComment(
+            context.octokit,
+            owner,
+            repo,
+            pull_number,
+            `Dependabot Steward skipped this pull request because \`${configPath}\` is invalid:\n\n${e.issues.map(i => `- ${i}`).join('\n')}`
+        )
+        return { pull_number, outcome: 'skipped', reason: `${configPath} is invalid` }
+    }
+
+    // Check if the app is disabled for this repository
+    if (!config.enabled) {
+        return skip(`Dependabot Steward is disabled in ${configPath}`)
+    }
+
+    // Check if the repository trusts the bot
+    if (!config.bots.includes(bot.name)) {
+        return skip(`${bot.title} is not trusted in ${configPath}`)
+    }
+
+    // Count the users whose latest review approves the pull request, as the branch rules may require several approvals
+    const latestReviews = new Map(prReviewsData.filter(r => r.user && r.state !== 'COMMENTED').map(r => [r.user?.id, r.state]))
+    const approvals = [...latestReviews.values()].filter(s => s === 'APPROVED').length
+
+    // Parse the updated dependencies from the PR and its commit, e.g. the update-type trailers of Dependabot's commit
+    const prCommitsData = (await octokit.pulls.listCommits({ owner, repo, pull_number, per_page: 1 })).data
+    const metadata = bot.parse({
+        title: prData.title,
+        body: prData.body,
+        commitMessage: prCommitsData[0]?.commit.message,
+        headBranch: prData.head.ref
     })
+
+    // Look up the advisories a security update fixes, as security updates may be merged under their own policy
+    const security = await evaluateSecurity(context.octokit, context.log, config.security, [prData.title, prData.body], metadata.updates)
+
+    if (security.reason) {
+        context.log.info(`Pull request #${pull_number}: ${security.reason}.`)
+    }
+
+    const evaluation = await decidePullRequest(context, owner, repo, pull_number, prData, { bot, metadata, security }, approvals, config)
+
+    if (security.advisories.length > 0) {
+        evaluation.advisories = security.advisories.map(describeAdvisory)
+    }
+
+    if (evaluation.outcome === 'skipped') {
+        context.log.warn(`Pull request #${pull_number}: ${evaluation.reason}, skipping auto-merge.`)
+    }
+
+    // Explain the decision on the pull request itself
+    await publishReport(context.octokit, context.log, { owner, repo, pull_number, head_sha: prData.head.sha }, config.report, evaluation)
+
+    return evaluation
+}
+
+/**
+ * Decides on a pull request the app is enabled for, and approves and merges it if all conditions are met.
+ * @param context The webhook context providing the authenticated Octokit instance and the logger.
+ * @param owner The repository owner.
+ * @param repo The repository name.
+ * @param pull_number The pull request number.
+ * @param prData The pull request.
+ * @param update What the pull request updates.
+ * @param approvals The number of users who have approved the pull request.
+ * @param config The repository configuration.
+ * @returns The outcome of the evaluation, with the details for the report.
+ */
+async function decidePullRequest(
+    context: EvaluationContext,
+    owner: string,
+    repo: string,
+    pull_number: number,
+    prData: PullRequest,
+    update: BotUpdate,
+    approvals: number,
+    config: StewardConfig
+): Promise<Evaluation> {
+    const octokit = context.octokit.rest // Octokit instance for making GitHub API calls
+    const headBranch = prData.head.ref // Head branch of the PR
+    const dryRun = isDryRun(config) // Whether to only report what would be done
+    const { bot, metadata, security } = update
+    const ecosystem = metadata.ecosystem
+
+    // Check if the package ecosystem is allowed
+    if (config.ecosystems && (!ecosystem || !config.ecosystems.includes(ecosystem))) {
+        return { pull_number, outcome: 'skipped', reason: `Ecosystem ${ecosystem ?? 'unknown'} is not allowed in ${configPath}` }
+    }
+
+    if (metadata.group) {
+        context.log.info(`Pull request #${pull_number} is a grouped update of ${metadata.group} with ${metadata.updates.length} dependencies.`)
+    }
+
+    // Check if the dependency rules and update types allow every updated dependency; security updates may allow other update types
+    const updateTypes = security.applies && config.security.update_types ? config.security.update_types : config.update_types
+    const decision = evaluatePolicy({ ...config, update_types: updateTypes }, metadata.updates, ecosystem)
+
+    if (!decision.allowed) {
+        return {
+            pull_number,
+            outcome: 'skipped',
+            reason: decision.reason,
+            ...(decision.rule ? { rule: decision.rule } : {}),
+            ...(decision.blocked.length > 1 ? { blocked: decision.blocked.map(b => b.reason) } : {})
+        }
+    }
+
+    context.log.info(`Pull request #${pull_number}: ${decision.reason}.`)
+
+    // Wait until the updated versions are old enough, as compromised releases are usually caught within days
+    const cooldown =
+        security.applies && !config.security.cooldown
+            ? { ready: true }
+            : await evaluateCooldown(config.cooldown, ecosystem, prData.created_at, metadata.updates)
+
+    if (!cooldown.ready) {
+        return { pull_number, outcome: 'deferred', reason: cooldown.reason ?? 'Cooldown has not ended yet' }
+    }
+
+    // Fetch repository metadata to determine allowed merge methods and whether auto-merge is available
+    const repoMetadata = (await octokit.repos.get({ owner, repo })).data
+    // In auto-merge mode GitHub itself waits for the required checks, so they are not evaluated
+    let autoMerge = config.mode === 'auto_merge'
+
+    if (autoMerge && !repoMetadata.allow_auto_merge) {
+        context.log.warn(`Pull request #${pull_number}: Auto-merge is not allowed in the repository settings, waiting for the checks instead.`)
+        autoMerge = false
+    }
+
+    // Determine the allowed merge methods, preferring the configured ones
+    const allowedMethods = selectMergeMethods(repoMetadata, config.merge_method)
+
+    if (allowedMethods.length === 0) {
+        // If no merge method is allowed, something is wrong with repo settings
+        throw new Error('No allowed merge method found for the repository.')
+    }
+
+    // Evaluate the branch rules of the base branch, which also narrow down the merge methods
+    const installationId = context.payload?.installation?.id
+    const rules = await getBranchRules(context.octokit, context.log, { owner, repo, branch: prData.base.ref })
+    const branchRules = await evaluateBranchRules(
+        context.octokit,
+        { owner, repo, pull_number, headSha: prData.head.sha, approvals },
+        rules,
+        allowedMethods
+    )
+
+    if (!branchRules.mergeable) {
+        return { pull_number, outcome: 'skipped', reason: branchRules.reason ?? 'Some branch rules cannot be satisfied by the app', branchRules }
+    }
+
+    // Older GitHub Enterprise Server versions can't add pull requests to the merge queue through the API
+    if (branchRules.mergeQueue && !(await supportsMergeQueue(context.octokit, installationId))) {
+        return { pull_number, outcome: 'skipped', reason: 'The merge queue is not supported by the GitHub server', branchRules }
+    }
+
+    // A branch that is behind or has conflicts can't be merged, so bring it up to date first; its new checks trigger another evaluation
+    const stale = await updateStaleBranch(
+        context.octokit,
+        context.log,
+        { owner, repo, pull_number, headSha: prData.head.sha, body: prData.body },
+        prData.mergeable_state,
+        dryRun ? 'none' : config.update_branch,
+        bot
+    )
+
+    if (stale) {
+        return { pull_number, outcome: 'skipped', reason: stale, branchRules }
+    }
+
+    // The merge queue merges with its own merge method, so the merge methods only matter for auto-merge
+    const methods = branchRules.mergeQueue ? allowedMethods : branchRules.methods
+    let checks: CheckEvaluation | undefined
+
+    if (!autoMerge) {
+        // Evaluate the required checks against the check runs and commit statuses of the head commit
+        checks = await evaluateChecks(
+            context.octokit,
+            { owner, repo, headRef: headBranch, headSha: prData.head.sha },
+            branchRules.requiredChecks,
+            config.checks,
+            (await identitiesFor(context)).steward
+        )
+
+        if (!checks.passed) {
+            // Re-run the failed required checks if configured; their check events trigger another evaluation
+            const retried =
+                !dryRun && config.retries > 0 && checks.failed.length > 0
+                    ? await retryFailedChecks(context.octokit, context.log, { owner, repo, headSha: prData.head.sha }, checks.failed, config.retries)
+                    : []
+
+            if (retried.length > 0) {
+                return { pull_number, outcome: 'skipped', reason: 'Re-running the failed required checks', checks, branchRules, retried }
+            }
+
+            return { pull_number, outcome: 'skipped', reason: checks.reason ?? 'Not all required checks have passed', checks, branchRules }
+        }
+
+        // In auto-merge mode GitHub waits for the pending rules as well, but a direct merge would be rejected
+        if (branchRules.pending.length > 0) {
+            return { pull_number, outcome: 'skipped', reason: branchRules.reason ?? 'Some branch rules are not yet satisfied', checks, branchRules }
+        }
+    }
+
+    // Merge only within the merge windows; outside of them the scheduled re-check merges the pull request later
+    // Security updates may skip the merge windows, but not the freeze periods
+    const window = evaluateSchedule(security.applies && !config.security.schedule ? { ...config.schedule, windows: [] } : config.schedule)
+
+    if (!window.open) {
+        return { pull_number, outcome: 'deferred', reason: window.reason ?? 'Outside the merge windows', ...(checks ? { checks } : {}), branchRules }
+    }
+
+    // Report what would be done instead of approving and merging, so that it can be compared to what humans do
+    if (dryRun) {
+        const action = autoMerge ? 'auto_merge' : branchRules.mergeQueue ? 'merge_queue' : 'merge'
+        const reason =
+            action === 'auto_merge'
+                ? `Would approve and enable auto-merge using ${methods[0]} method`
+                : action === 'merge_queue'
+                  ? 'Would approve and add to the merge queue'
+                  : `Would approve and merge using ${methods[0]} method`
+        context.log.info(
+            {
+                dryRun: {
+                    owner,
+                    repo,
+                    pull_number,
+                    head_sha: prData.head.sha,
+                    action,
+                    merge_method: action === 'merge_queue' ? null : methods[0],
+                    updates: metadata.updates,
+                    advisories: security.advisories.map(a => a.ghsaId)
+                }
+            },
+            `Pull request #${pull_number}: ${reason} (dry run).`
+        )
+        return { pull_number, outcome: 'dry_run', reason, ...(checks ? { checks } : {}), branchRules }
+    }
+
+    const mergeRequest = {
+        owner,
+        repo,
+        pull_number,
+        methods,
+        commit_title: config.commit_title && renderTemplate(config.commit_title, metadata, pull_number),
+        commit_message: config.commit_message && renderTemplate(config.commit_message, metadata, pull_number)
+    }
+
+    // All conditions met for merging, so approve the pull request
+    await octokit.pulls.createReview({ owner, repo, pull_number, event: 'APPROVE' })
+
+    // Let GitHub merge the pull request once it is ready; if it already is, merge it right away
+    if (autoMerge) {
+        const result = await enableAutoMerge(context.octokit, context.log, prData.node_id, mergeRequest)
+
+        if (result !== 'clean') {
+            return result === 'enabled'
+                ? { pull_number, outcome: 'auto_merge', reason: `Auto-merge enabled using ${methods[0]} method` }
+                : { pull_number, outcome: 'failed', reason: 'Auto-merge could not be enabled' }
+        }
+    }
+
+    // The merge queue rejects direct merges, so add the pull request to the queue instead
+    if (branchRules.mergeQueue) {
+        return (await enqueuePullRequest(context.octokit, context.log, prData.node_id, pull_number, prData.head.sha))
+            ? { pull_number, outcome: 'queued', reason: 'Added to the merge queue' }
+            : { pull_number, outcome: 'failed', reason: 'Could not be added to the merge queue' }
+    }
+
+    // Merge the pull request, falling back to the next allowed method if one is rejected
+    const merge_method = await mergePullRequest(context.octokit, context.log, mergeRequest)
+
+    return merge_method
+        ? { pull_number, outcome: 'merged', reason: `Merged using ${merge_method} method` }
+        : { pull_number, outcome: 'failed', reason: 'No merge method succeeded' }
 }
@@ -0,0 +1,99 @@
+import type { Context } from 'probot'
+import { type BotName, parseEcosystem } from './config.ts'
+import { type DependabotMessage, type DependencyMetadata, parseDependabotMessage, parsePreCommitMessage, parseRenovateMessage } from './metadata.ts'
+import type { UpdateTarget } from './update.ts'
+
+/**
+ * The parts of a pull request a bot describes its update in.
+ */
+export interface BotPullRequest extends DependabotMessage {
+    /** The head branch of the pull request. */
+    headBranch: string
+}
+
+/**
+ * Recognizes the pull requests of a dependency bot and reads the updates from them.
+ */
+export interface BotAdapter {
+    /** The name of the bot in `.steward.yml`. */
+    name: BotName
+    /** The name of the bot in logs and reports, e.g. `Renovate`. */
+    title: string
+    /** The logins of the bot user on github.com, which `STEWARD_<NAME>_LOGINS` overrides. */
+    logins: string[]
+    /** The prefix of the bot's head branches, if the bot's pull requests must be on one. */
+    branchPrefix?: string
+    /**
+     * Reads the dependency updates from a pull request of the bot.
+     * @param pr The pull request.
+     * @returns The update metadata, with no updates if the pull request could not be parsed.
+     */
+    parse(pr: BotPullRequest): DependencyMetadata
+    /**
+     * Asks the bot to rebase its pull request. Bots without it have their branches updated by the app instead.
+     * @param octokit The authenticated Octokit instance.
+     * @param target The pull request.
+     * @returns Whether the bot was asked, or already had been.
+     */
+    rebase?(octokit: Context['octokit'], target: UpdateTarget): Promise<boolean>
+}
+
+const renovateRebaseCheckbox = '- [ ] <!-- rebase-check -->' // Checkbox in the body of Renovate pull requests that requests a rebase
+const renovateRebaseChecked = '- [x] <!-- rebase-check -->'
+
+export const dependabotAdapter: BotAdapter = {
+    name: 'dependabot',
+    title: 'Dependabot',
+    logins: ['dependabot[bot]'],
+    parse: pr => {
+        const ecosystem = parseEcosystem(pr.headBranch)
+        return { ...parseDependabotMessage(pr), ...(ecosystem ? { ecosystem } : {}) }
+    },
+    rebase: async (octokit, { owner, repo, pull_number, headSha }) => {
+        // The marker records the head commit, so that Dependabot is asked only once per commit
+        const marker = `<!-- dependabot-steward:rebase ${headSha} -->`
+        const comments = await octokit.paginate(octokit.rest.issues.listComments, { owner, repo, issue_number: pull_number, per_page: 100 })
+
+        if (!comments.some(c => c.body?.includes(marker))) {
+            await octokit.rest.issues.createComment({ owner, repo, issue_number: pull_number, body: `@dependabot rebase\n\n${marker}` })
+        }
+
+        return true
+    }
+}
+
+export const renovateAdapter: BotAdapter = {
+    name: 'renovate',
+    title: 'Renovate',
+    logins: ['renovate[bot]'],
+    branchPrefix: 'renovate/',
+    parse: pr => parseRenovateMessage(pr),
+    rebase: async (octokit, { owner, repo, pull_number, body }) => {
+        // Renovate rebases once the checkbox is checked, and removes the check afterwards
+        if (body?.includes(renovateRebaseChecked)) {
+            return true
+        }
+
+        // The checkbox is missing if rebasing is disabled in the Renovate configuration
+        if (!body?.includes(renovateRebaseCheckbox)) {
+            return false
+        }
+
+        await octokit.rest.pulls.update({ owner, repo, pull_number, body: body.replace(renovateRebaseCheckbox, renovateRebaseChecked) })
+        return true
+    }
+}
+
+export const preCommitAdapter: BotAdapter = {
+    name: 'pre-commit-ci',
+    title: 'pre-commit.ci',
+    logins: ['pre-commit-ci[bot]'],
+    branchPrefix: 'pre-commit-ci-update-config',
+    parse: pr => parsePreCommitMessage(pr)
+}
+
+export const botAdapters: Record<BotName, BotAdapter> = {
+    dependabot: dependabotAdapter,
+    renovate: renovateAdapter,
+    'pre-commit-ci': preCommitAdapter
+}
@@ -0,0 +1,181 @@
+import type { Context } from 'probot'
+import type { CheckVerdict, ChecksConfig } from './config.ts'
+import { matchGlob } from './rules.ts'
+
+/**
+ * The head of a pull request, as far as the check evaluation needs it.
+ */
+export interface CheckTarget {
+    owner: string
+    repo: string
+    /** The head branch of the pull request. */
+    headRef: string
+    /** The head commit of the pull request. */
+    headSha: string
+}
+
+/**
+ * The outcome of evaluating the checks and commit statuses of a pull request.
+ */
+export interface CheckEvaluation {
+    /** Whether all required checks have passed. */
+    passed: boolean
+    /** A human-readable explanation if the checks have not passed. */
+    reason?: string
+    /** Required checks that have not reported at all. */
+    missing: string[]
+    /** Required checks that have completed without passing. */
+    failed: string[]
+    /** Check suites or commit statuses that have not completed yet, or required checks waited for by the configuration. */
+    pending: string[]
+}
+
+/**
+ * A status check required by the branch rules.
+ */
+export interface RequiredCheck {
+    /** The name of the check run or the context of the commit status. */
+    context: string
+    /** The ID of the GitHub App that must report the check, if any. */
+    integration_id?: number
+}
+
+type CheckRun = Awaited<ReturnType<Context['octokit']['rest']['checks']['listForSuite']>>['data']['check_runs'][number]
+
+/**
+ * Evaluates the required checks of a pull request against its check runs and commit statuses.
+ * Check runs come from the Checks API (e.g. GitHub Actions); commit statuses from the legacy
+ * Statuses API (e.g. Jenkins, CircleCI). Both count towards the required checks of the base branch.
+ * The configuration decides which conclusions pass, and may ignore required checks or require additional ones.
+ * @param octokit The authenticated Octokit instance.
+ * @param target The pull request head.
+ * @param branchChecks The status checks required by the branch rules of the base branch.
+ * @param policy The check configuration of the repository.
+ * @param steward The login of the app's bot user, whose own check suite is not waited for.
+ * @returns The check evaluation.
+ */
+export async function evaluateChecks(
+    octokit: Context['octokit'],
+    target: CheckTarget,
+    branchChecks: RequiredCheck[],
+    policy: ChecksConfig,
+    steward?: string
+): Promise<CheckEvaluation> {
+    const { owner, repo, headRef, headSha } = target
+    const passedEvaluation: CheckEvaluation = { passed: true, missing: [], failed: [], pending: [] }
+    const additionalChecks = policy.require
+        .filter(context => !branchChecks.some(bc => bc.context === context))
+        .map((context): RequiredCheck => ({ context }))
+    const isIgnored = (context: string) => policy.ignore.some(pattern => matchGlob(pattern, context))
+    const requiredChecks = [...branchChecks, ...additionalChecks].filter(rc => !isIgnored(rc.context))
+
+    // Get all check suites for the head branch except the steward's own, and filter for valid check suites that have check runs
+    const headSuitesData = (await octokit.rest.checks.listSuitesForRef({ owner, repo, ref: headRef })).data
+    const suites = headSuitesData.total_count === 0 ? [] : headSuitesData.check_suites.filter(cs => `${cs.app?.slug}[bot]` !== steward)
+    const validSuites = suites.filter(cs => cs.latest_check_runs_count > 0)
+    // A queued or in-progress suite without check runs may be CI that has not started yet, e.g. right after the
+    // pull request was opened or its branch was updated
+    const startingSuites = suites.filter(cs => cs.latest_check_runs_count === 0 && (cs.status === 'queued' || cs.status === 'in_progress'))
+    // Get all commit statuses for the head commit, latest per context
+    const statuses = (await octokit.rest.repos.getCombinedStatusForRef({ owner, repo, ref: headSha })).data.statuses
+
+    // If there are no checks or statuses, consider it passed (no checks to fail), unless some are required,
+    // e.g. when the pull request was just opened and CI has not created its check runs yet
+    if (validSuites.length === 0 && startingSuites.length === 0 && statuses.length === 0 && requiredChecks.length === 0) {
+        return passedEvaluation
+    }
+
+    const pending = [
+        ...[...validSuites, ...startingSuites].filter(cs => cs.status !== 'completed').map(cs => cs.app?.name ?? `check suite ${cs.id}`),
+        // Ignored commit statuses are not waited for, e.g. a flaky external status that never completes
+        ...statuses.filter(s => s.state === 'pending' && !isIgnored(s.context)).map(s => s.context)
+    ]
+
+    // Check if any valid check suite or commit status is not completed
+    if (pending.length > 0) {
+        return { passed: false, reason: 'Some check suites or commit statuses are not yet completed', missing: [], failed: [], pending }
+    }
+
+    // If no required checks are configured, consider it passed
+    if (requiredChecks.length === 0) {
+        return passedEvaluation
+    }
+
+    // Fetch the latest check runs of the valid suites, following the pagination for suites with many check runs
+    const checkRuns = (
+        await Promise.all(
+            validSuites.map(vs =>
+                octokit.paginate(octokit.rest.checks.listForSuite, { owner, repo, check_suite_id: vs.id, filter: 'latest', per_page: 100 })
+            )
+        )
+    ).flat()
+    const missing: string[] = []
+    const failed: string[] = []
+    const waiting: string[] = []
+
+    for (const rc of requiredChecks) {
+        const checkRun = findLatestCheckRun(checkRuns, rc)
+        // Commit statuses don't identify the app that reported them, so they only count for checks not pinned to an app
+        const status = rc.integration_id === undefined ? statuses.find(s => s.context === rc.context) : undefined
+
+        // Either a passing check run or a passing commit status satisfies the required check
+        const verdicts = [
+            checkRun && (checkRun.conclusion ? (policy.conclusions[checkRun.conclusion] ?? 'fail') : 'wait'),
+            status && statusVerdict(status.state, policy)
+        ]
+
+        if (!checkRun && !status) {
+            missing.push(rc.context)
+        } else if (verdicts.includes('wait') && !verdicts.includes('pass')) {
+            waiting.push(rc.context)
+        } else if (!verdicts.includes('pass')) {
+            failed.push(rc.context)
+        }
+    }
+
+    // Check if all required checks have passed
+    if (missing.length > 0 || failed.length > 0) {
+        return { passed: false, reason: 'Not all required checks have passed', missing, failed, pending: [] }
+    }
+
+    // Check if any required check is waited for, e.g. until it is re-run
+    if (waiting.length > 0) {
+        return { passed: false, reason: 'Some required checks are waiting for another conclusion', missing: [], failed: [], pending: waiting }
+    }
+
+    return passedEvaluation
+}
+
+/**
+ * Finds the check run that decides a required check: the latest run with its name, from the required app if any.
+ * Re-runs and re-requested suites leave the earlier runs behind, which must not decide anymore.
+ * @param checkRuns The check runs of the head commit.
+ * @param requiredCheck The required check.
+ * @returns The latest matching check run, or undefined if the check has not reported.
+ */
+export function findLatestCheckRun<T extends Pick<CheckRun, 'id' | 'name' | 'started_at' | 'app'>>(
+    checkRuns: T[],
+    requiredCheck: RequiredCheck
+): T | undefined {
+    const { context, integration_id } = requiredCheck
+
+    return checkRuns
+        .filter(cr => cr.name === context && (integration_id === undefined || cr.app?.id === integration_id))
+        .reduce<T | undefined>((latest, cr) => {
+            if (!latest) {
+                return cr
+            }
+
+            const order = (cr.started_at ?? '').localeCompare(latest.started_at ?? '') || cr.id - latest.id
+            return order > 0 ? cr : latest
+        }, undefined)
+}
+
+// Commit statuses have no conclusions of their own, so they count like successful or failed check runs
+function statusVerdict(state: string, policy: ChecksConfig): CheckVerdict {
+    if (state === 'pending') {
+        return 'wait'
+    }
+
+    return state === 'success' ? policy.conclusions.success : policy.conclusions.failure
+}
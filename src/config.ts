@@ -0,0 +1,747 @@
+import type { Context } from 'probot'
+
+export const configPath = '.steward.yml' // Configuration file read from the repository's default branch
+
+export const mergeMethods = ['merge', 'squash', 'rebase'] as const
+export const updateTypes = ['patch', 'minor', 'major'] as const
+
+export const ruleActions = ['allow', 'deny'] as const
+export const mergeModes = ['merge', 'auto_merge'] as const
+export const reportModes = ['check_run', 'comment', 'none'] as const
+export const checkConclusions = [
+    'success',
+    'failure',
+    'neutral',
+    'cancelled',
+    'skipped',
+    'timed_out',
+    'action_required',
+    'startup_failure',
+    'stale'
+] as const
+export const checkVerdicts = ['pass', 'fail', 'wait'] as const
+export const updateBranchModes = ['rebase', 'update', 'none'] as const
+export const cooldownSources = ['pull_request', 'release'] as const
+export const weekdays = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] as const
+export const botNames = ['dependabot', 'renovate', 'pre-commit-ci'] as const
+export const advisorySeverities = ['low', 'medium', 'high', 'critical'] as const
+
+export type MergeMethod = (typeof mergeMethods)[number]
+export type UpdateType = (typeof updateTypes)[number]
+export type RuleAction = (typeof ruleActions)[number]
+export type MergeMode = (typeof mergeModes)[number]
+export type ReportMode = (typeof reportModes)[number]
+export type CheckConclusion = (typeof checkConclusions)[number]
+export type CheckVerdict = (typeof checkVerdicts)[number]
+export type UpdateBranchMode = (typeof updateBranchModes)[number]
+export type CooldownSource = (typeof cooldownSources)[number]
+export type Weekday = (typeof weekdays)[number]
+export type BotName = (typeof botNames)[number]
+export type AdvisorySeverity = (typeof advisorySeverities)[number]
+
+/**
+ * An allow/deny rule for dependency updates. A rule matches an update when all of its criteria match.
+ */
+export interface DependencyRule {
+    /** A glob matched against the dependency name, e.g. `react*` or `@types/*`. */
+    dependency?: string
+    /** The package ecosystems the rule applies to. */
+    ecosystems?: string[]
+    /** The semver update types the rule applies to. */
+    update_types?: UpdateType[]
+    /** Whether matching updates are merged regardless of `update_types`, or never merged. */
+    action: RuleAction
+    /** An explanation shown in the logs and on the pull request. */
+    reason?: string
+}
+
+/**
+ * How the checks of a pull request are evaluated.
+ */
+export interface ChecksConfig {
+    /** Whether a required check with a given conclusion passes, fails, or is waited for, e.g. until it is re-run. */
+    conclusions: Record<CheckConclusion, CheckVerdict>
+    /** Globs of required checks that don't need to pass, e.g. flaky ones. */
+    ignore: string[]
+    /** Checks that are required in addition to those of the branch rules. */
+    require: string[]
+}
+
+/**
+ * How long pull requests wait before they are merged, so that compromised releases can be caught in the meantime.
+ */
+export interface CooldownConfig {
+    /** The minimum age in days. */
+    days: number
+    /** The minimum age in days per package ecosystem, overriding `days`. */
+    ecosystems: Record<string, number>
+    /**
+     * Whether the age is measured from the creation of the pull request, or from the release of the updated versions
+     * where the package registry publishes release dates.
+     */
+    from: CooldownSource
+}
+
+/**
+ * How security updates are merged, i.e. pull requests that fix a vulnerability of an updated dependency.
+ */
+export interface SecurityConfig {
+    /** The semver update types of security updates that may be merged, overriding `update_types`. */
+    update_types?: UpdateType[]
+    /** The minimum severity of the advisories for this policy to apply; less severe fixes are treated like routine updates. */
+    min_severity: AdvisorySeverity
+    /** Whether security updates wait for the cooldown. */
+    cooldown: boolean
+    /** Whether security updates wait for a merge window. Freeze periods apply either way. */
+    schedule: boolean
+}
+
+/**
+ * A recurring period in which the app may merge, e.g. weekdays during office hours.
+ */
+export interface MergeWindow {
+    /** The days of the week the window is open on. */
+    days: Weekday[]
+    /** The time the window opens, as `HH:MM`. */
+    start: string
+    /** The time the window closes, as `HH:MM`, after `start`. */
+    end: string
+}
+
+/**
+ * A range of days in which the app doesn't merge, e.g. a release freeze.
+ */
+export interface FreezePeriod {
+    /** The first frozen day, as `YYYY-MM-DD`. */
+    from: string
+    /** The last frozen day, as `YYYY-MM-DD`. */
+    to: string
+    /** An explanation shown on the pull request. */
+    reason?: string
+}
+
+/**
+ * When the app may merge.
+ */
+export interface ScheduleConfig {
+    /** The IANA time zone of the windows and freeze periods, e.g. `Europe/Berlin`. */
+    timezone: string
+    /** The periods in which the app may merge. At any time when empty. */
+    windows: MergeWindow[]
+    /** The periods in which the app doesn't merge, even within a window. */
+    freezes: FreezePeriod[]
+}
+
+/**
+ * The per-repository configuration read from `.steward.yml`.
+ */
+export interface StewardConfig {
+    /** Whether the app acts on the repository at all. */
+    enabled: boolean
+    /** The dependency bots whose pull requests are merged. Only Dependabot by default. */
+    bots: BotName[]
+    /**
+     * How pull requests are merged: `merge` waits for the checks and merges directly,
+     * `auto_merge` approves right away and enables GitHub's native auto-merge.
+     */
+    mode: MergeMode
+    /**
+     * The merge methods in order of preference. Methods the repository does not allow are skipped, and the
+     * remaining allowed methods are tried afterwards. Accepts a single method in `.steward.yml`.
+     */
+    merge_method?: MergeMethod[]
+    /** The template for the commit title of squash merges. */
+    commit_title?: string
+    /** The template for the commit message of squash merges. */
+    commit_message?: string
+    /**
+     * The package ecosystems (as in the `dependabot/<ecosystem>/...` branch name) to act on. All when unset.
+     * The ecosystems of other bots are mapped to Dependabot's names, e.g. Renovate's `pypi` datasource to `pip`.
+     */
+    ecosystems?: string[]
+    /** The semver update types that may be merged. Patch and minor updates by default. */
+    update_types: UpdateType[]
+    /** Ordered allow/deny rules; the first matching rule decides over `update_types`. */
+    rules: DependencyRule[]
+    /**
+     * How the decision is explained on the pull request: a `Dependabot Steward` check run on the head commit,
+     * a single comment that is kept up to date, or not at all.
+     */
+    report: ReportMode
+    /** How the checks are evaluated. By default successful, neutral and skipped checks pass and all others fail. */
+    checks: ChecksConfig
+    /** How many times a failed required check is re-run per head commit before the pull request is given up on. */
+    retries: number
+    /**
+     * How a pull request branch that is behind its base branch or has conflicts is brought up to date:
+     * by asking the bot to rebase it (e.g. commenting `@dependabot rebase`), by merging the base branch into it, or not at all.
+     * Bots that can't be asked to rebase have a branch that is behind updated instead.
+     */
+    update_branch: UpdateBranchMode
+    /** How long pull requests wait before they are merged. Not at all by default. */
+    cooldown: CooldownConfig
+    /** When the app may merge. Pull requests that are ready at other times are merged once a window opens. */
+    schedule: ScheduleConfig
+    /** How security updates are merged. Like routine updates by default. */
+    security: SecurityConfig
+    /**
+     * Whether the app only reports what it would do, without approving, merging, updating branches or re-running checks.
+     * Can be enabled for all repositories with the `STEWARD_DRY_RUN` environment variable.
+     */
+    dry_run: boolean
+}
+
+export const defaultConfig: StewardConfig = {
+    enabled: true,
+    bots: ['dependabot'],
+    mode: 'merge',
+    update_types: ['patch', 'minor'],
+    rules: [],
+    report: 'check_run',
+    checks: {
+        conclusions: {
+            success: 'pass',
+            failure: 'fail',
+            neutral: 'pass',
+            cancelled: 'fail',
+            skipped: 'pass',
+            timed_out: 'fail',
+            action_required: 'fail',
+            startup_failure: 'fail',
+            stale: 'fail'
+        },
+        ignore: [],
+        require: []
+    },
+    retries: 0,
+    update_branch: 'rebase',
+    cooldown: {
+        days: 0,
+        ecosystems: {},
+        from: 'pull_request'
+    },
+    schedule: {
+        timezone: 'UTC',
+        windows: [],
+        freezes: []
+    },
+    security: {
+        min_severity: 'low',
+        cooldown: true,
+        schedule: true
+    },
+    dry_run: false
+}
+
+/**
+ * Thrown when `.steward.yml` cannot be parsed or does not match the schema.
+ */
+export class ConfigError extends Error {
+    readonly issues: string[]
+
+    constructor(issues: string[]) {
+        super(`Invalid ${configPath}:\n${issues.map(i => `- ${i}`).join('\n')}`)
+        this.name = 'ConfigError'
+        this.issues = issues
+    }
+}
+
+// Ecosystem names used in dependabot.yml, mapped to the names Dependabot uses in its branch names
+const ecosystemAliases: Record<string, string> = {
+    npm: 'npm_and_yarn',
+    'github-actions': 'github_actions',
+    gomod: 'go_modules',
+    gitsubmodule: 'submodules',
+    'pre-commit': 'pre_commit'
+}
+
+/**
+ * Normalizes an ecosystem name so that both dependabot.yml and branch name spellings are accepted.
+ * @param ecosystem The ecosystem name.
+ * @returns The ecosystem name as used in Dependabot branch names.
+ */
+export function normalizeEcosystem(ecosystem: string): string {
+    const lower = ecosystem.toLowerCase()
+    return ecosystemAliases[lower] ?? lower
+}
+
+/**
+ * Extracts the package ecosystem from a Dependabot head branch (`dependabot/<ecosystem>/...`).
+ * @param headBranch The head branch of the pull request.
+ * @returns The ecosystem, or undefined if the branch was not created by Dependabot.
+ */
+export function parseEcosystem(headBranch: string): string | undefined {
+    const match = /^dependabot\/([^/]+)\//.exec(headBranch)
+    return match ? normalizeEcosystem(match[1]) : undefined
+}
+
+/**
+ * Validates a raw configuration object against the `.steward.yml` schema.
+ * @param raw The parsed YAML content.
+ * @returns The validated configuration merged with the defaults.
+ * @throws ConfigError If the configuration does not match the schema.
+ */
+export function validateConfig(raw: unknown): StewardConfig {
+    if (!isRecord(raw)) {
+        throw new ConfigError(['The configuration must be a mapping of keys to values.'])
+    }
+
+    const issues: string[] = []
+    const config: StewardConfig = { ...defaultConfig }
+    checkKeys(
+        raw,
+        [
+            'enabled',
+            'bots',
+            'mode',
+            'merge_method',
+            'commit_title',
+            'commit_message',
+            'ecosystems',
+            'update_types',
+            'rules',
+            'report',
+            'checks',
+            'retries',
+            'update_branch',
+            'cooldown',
+            'schedule',
+            'security',
+            'dry_run'
+        ],
+        '',
+        issues
+    )
+
+    if (raw.enabled !== undefined) {
+        config.enabled = readBoolean(raw.enabled, 'enabled', issues) ?? config.enabled
+    }
+
+    if (raw.bots !== undefined) {
+        config.bots = readEnumList(raw.bots, 'bots', botNames, issues) ?? config.bots
+    }
+
+    if (raw.mode !== undefined) {
+        config.mode = readEnum(raw.mode, 'mode', mergeModes, issues) ?? config.mode
+    }
+
+    if (raw.merge_method !== undefined) {
+        // A single method is shorthand for a list with one entry
+        config.merge_method = Array.isArray(raw.merge_method)
+            ? readEnumList(raw.merge_method, 'merge_method', mergeMethods, issues)
+            : [readEnum(raw.merge_method, 'merge_method', mergeMethods, issues)].filter(m => m !== undefined)
+    }
+
+    if (raw.commit_title !== undefined) {
+        config.commit_title = readString(raw.commit_title, 'commit_title', issues)
+    }
+
+    if (raw.commit_message !== undefined) {
+        config.commit_message = readString(raw.commit_message, 'commit_message', issues)
+    }
+
+    if (raw.ecosystems !== undefined) {
+        config.ecosystems = readStringList(raw.ecosystems, 'ecosystems', issues)?.map(normalizeEcosystem)
+    }
+
+    if (raw.update_types !== undefined) {
+        config.update_types = readEnumList(raw.update_types, 'update_types', updateTypes, issues) ?? config.update_types
+    }
+
+    if (raw.rules !== undefined) {
+        config.rules = readRules(raw.rules, issues)
+    }
+
+    if (raw.report !== undefined) {
+        config.report = readEnum(raw.report, 'report', reportModes, issues) ?? config.report
+    }
+
+    if (raw.checks !== undefined) {
+        config.checks = readChecks(raw.checks, issues)
+    }
+
+    if (raw.retries !== undefined) {
+        config.retries = readCount(raw.retries, 'retries', issues) ?? config.retries
+    }
+
+    if (raw.update_branch !== undefined) {
+        config.update_branch = readEnum(raw.update_branch, 'update_branch', updateBranchModes, issues) ?? config.update_branch
+    }
+
+    if (raw.cooldown !== undefined) {
+        config.cooldown = readCooldown(raw.cooldown, issues)
+    }
+
+    if (raw.schedule !== undefined) {
+        config.schedule = readSchedule(raw.schedule, issues)
+    }
+
+    if (raw.security !== undefined) {
+        config.security = readSecurity(raw.security, issues)
+    }
+
+    if (raw.dry_run !== undefined) {
+        config.dry_run = readBoolean(raw.dry_run, 'dry_run', issues) ?? config.dry_run
+    }
+
+    if (issues.length > 0) {
+        throw new ConfigError(issues)
+    }
+
+    return config
+}
+
+/**
+ * Loads and validates `.steward.yml` from the default branch of a repository.
+ * A missing file yields the default configuration.
+ * @param octokit The authenticated Octokit instance.
+ * @param owner The repository owner.
+ * @param repo The repository name.
+ * @returns The validated configuration.
+ * @throws ConfigError If the file cannot be parsed or is invalid.
+ */
+export async function loadConfig(octokit: Context['octokit'], owner: string, repo: string): Promise<StewardConfig> {
+    let raw: unknown
+
+    try {
+        // Reads from the default branch; also honors `_extends` and the organization's `.github` repository
+        raw = (await octokit.config.get({ owner, repo, path: configPath })).config
+    } catch (e: unknown) {
+        // API errors carry a status code and are not the configuration's fault
+        if (e instanceof Error && !('status' in e)) {
+            throw new ConfigError([e.message])
+        }
+
+        throw e
+    }
+
+    return validateConfig(raw)
+}
+
+/**
+ * Checks whether the app only reports what it would do in a repository, either because its configuration says so
+ * or because the `STEWARD_DRY_RUN` environment variable enables dry-run mode for all repositories.
+ * @param config The repository configuration.
+ * @returns Whether dry-run mode is enabled.
+ */
+export function isDryRun(config: StewardConfig): boolean {
+    return config.dry_run || process.env.STEWARD_DRY_RUN === 'true'
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function checkKeys(record: Record<string, unknown>, knownKeys: string[], prefix: string, issues: string[]): void {
+    for (const key of Object.keys(record)) {
+        if (!knownKeys.includes(key)) {
+            issues.push(`Unknown key \`${prefix}${key}\`.`)
+        }
+    }
+}
+
+function readBoolean(value: unknown, key: string, issues: string[]): boolean | undefined {
+    if (typeof value === 'boolean') {
+        return value
+    }
+
+    issues.push(`\`${key}\` must be \`true\` or \`false\`.`)
+    return undefined
+}
+
+function readEnum<T extends string>(value: unknown, key: string, allowed: readonly T[], issues: string[]): T | undefined {
+    if (typeof value === 'string' && (allowed as readonly string[]).includes(value)) {
+        return value as T
+    }
+
+    issues.push(`\`${key}\` must be one of ${allowed.map(a => `\`${a}\``).join(', ')}.`)
+    return undefined
+}
+
+function readString(value: unknown, key: string, issues: string[]): string | undefined {
+    if (typeof value === 'string') {
+        return value
+    }
+
+    issues.push(`\`${key}\` must be a string.`)
+    return undefined
+}
+
+function readCount(value: unknown, key: string, issues: string[]): number | undefined {
+    if (typeof value === 'number' && Number.isInteger(value) && value >= 0) {
+        return value
+    }
+
+    issues.push(`\`${key}\` must be a whole number of at least 0.`)
+    return undefined
+}
+
+function readStringList(value: unknown, key: string, issues: string[]): string[] | undefined {
+    if (Array.isArray(value) && value.every(v => typeof v === 'string')) {
+        return value
+    }
+
+    issues.push(`\`${key}\` must be a list of strings.`)
+    return undefined
+}
+
+function readEnumList<T extends string>(value: unknown, key: string, allowed: readonly T[], issues: string[]): T[] | undefined {
+    const list = readStringList(value, key, issues)
+
+    if (!list) {
+        return undefined
+    }
+
+    const invalid = list.filter(v => !(allowed as readonly string[]).includes(v))
+
+    if (invalid.length > 0) {
+        issues.push(
+            `\`${key}\` contains unknown values ${invalid.map(v => `\`${v}\``).join(', ')}; allowed are ${allowed.map(a => `\`${a}\``).join(', ')}.`
+        )
+        return undefined
+    }
+
+    return list as T[]
+}
+
+function readRules(value: unknown, issues: string[]): DependencyRule[] {
+    if (!Array.isArray(value)) {
+        issues.push('`rules` must be a list of rules.')
+        return []
+    }
+
+    return value.flatMap((raw: unknown, index): DependencyRule[] => {
+        const key = `rules[${index}]`
+
+        if (!isRecord(raw)) {
+            issues.push(`\`${key}\` must be a mapping of keys to values.`)
+            return []
+        }
+
+        checkKeys(raw, ['dependency', 'ecosystems', 'update_types', 'action', 'reason'], `${key}.`, issues)
+        const action = readEnum(raw.action, `${key}.action`, ruleActions, issues)
+        const rule: DependencyRule = { action: action ?? 'deny' }
+
+        if (raw.dependency !== undefined) {
+            rule.dependency = readString(raw.dependency, `${key}.dependency`, issues)
+        }
+
+        if (raw.ecosystems !== undefined) {
+            rule.ecosystems = readStringList(raw.ecosystems, `${key}.ecosystems`, issues)?.map(normalizeEcosystem)
+        }
+
+        if (raw.update_types !== undefined) {
+            rule.update_types = readEnumList(raw.update_types, `${key}.update_types`, updateTypes, issues)
+        }
+
+        if (raw.reason !== undefined) {
+            rule.reason = readString(raw.reason, `${key}.reason`, issues)
+        }
+
+        return [rule]
+    })
+}
+
+function readChecks(value: unknown, issues: string[]): ChecksConfig {
+    const checks: ChecksConfig = { ...defaultConfig.checks, conclusions: { ...defaultConfig.checks.conclusions } }
+
+    if (!isRecord(value)) {
+        issues.push('`checks` must be a mapping of keys to values.')
+        return checks
+    }
+
+    checkKeys(value, ['conclusions', 'ignore', 'require'], 'checks.', issues)
+
+    if (value.conclusions !== undefined) {
+        if (isRecord(value.conclusions)) {
+            checkKeys(value.conclusions, [...checkConclusions], 'checks.conclusions.', issues)
+
+            for (const conclusion of checkConclusions) {
+                const verdict = value.conclusions[conclusion]
+
+                if (verdict !== undefined) {
+                    checks.conclusions[conclusion] =
+                        readEnum(verdict, `checks.conclusions.${conclusion}`, checkVerdicts, issues) ?? checks.conclusions[conclusion]
+                }
+            }
+        } else {
+            issues.push('`checks.conclusions` must be a mapping of conclusions to `pass`, `fail` or `wait`.')
+        }
+    }
+
+    if (value.ignore !== undefined) {
+        checks.ignore = readStringList(value.ignore, 'checks.ignore', issues) ?? checks.ignore
+    }
+
+    if (value.require !== undefined) {
+        checks.require = readStringList(value.require, 'checks.require', issues) ?? checks.require
+    }
+
+    return checks
+}
+
+function readCooldown(value: unknown, issues: string[]): CooldownConfig {
+    const cooldown: CooldownConfig = { ...defaultConfig.cooldown, ecosystems: {} }
+
+    if (!isRecord(value)) {
+        issues.push('`cooldown` must be a mapping of keys to values.')
+        return cooldown
+    }
+
+    checkKeys(value, ['days', 'ecosystems', 'from'], 'cooldown.', issues)
+
+    if (value.days !== undefined) {
+        cooldown.days = readCount(value.days, 'cooldown.days', issues) ?? cooldown.days
+    }
+
+    if (value.ecosystems !== undefined) {
+        if (isRecord(value.ecosystems)) {
+            for (const [ecosystem, days] of Object.entries(value.ecosystems)) {
+                const count = readCount(days, `cooldown.ecosystems.${ecosystem}`, issues)
+
+                if (count !== undefined) {
+                    cooldown.ecosystems[normalizeEcosystem(ecosystem)] = count
+                }
+            }
+        } else {
+            issues.push('`cooldown.ecosystems` must be a mapping of ecosystems to days.')
+        }
+    }
+
+    if (value.from !== undefined) {
+        cooldown.from = readEnum(value.from, 'cooldown.from', cooldownSources, issues) ?? cooldown.from
+    }
+
+    return cooldown
+}
+
+function readSecurity(value: unknown, issues: string[]): SecurityConfig {
+    const security: SecurityConfig = { ...defaultConfig.security }
+
+    if (!isRecord(value)) {
+        issues.push('`security` must be a mapping of keys to values.')
+        return security
+    }
+
+    checkKeys(value, ['update_types', 'min_severity', 'cooldown', 'schedule'], 'security.', issues)
+
+    if (value.update_types !== undefined) {
+        security.update_types = readEnumList(value.update_types, 'security.update_types', updateTypes, issues)
+    }
+
+    if (value.min_severity !== undefined) {
+        security.min_severity = readEnum(value.min_severity, 'security.min_severity', advisorySeverities, issues) ?? security.min_severity
+    }
+
+    if (value.cooldown !== undefined) {
+        security.cooldown = readBoolean(value.cooldown, 'security.cooldown', issues) ?? security.cooldown
+    }
+
+    if (value.schedule !== undefined) {
+        security.schedule = readBoolean(value.schedule, 'security.schedule', issues) ?? security.schedule
+    }
+
+    return security
+}
+
+function readSchedule(value: unknown, issues: string[]): ScheduleConfig {
+    const schedule: ScheduleConfig = { ...defaultConfig.schedule }
+
+    if (!isRecord(value)) {
+        issues.push('`schedule` must be a mapping of keys to values.')
+        return schedule
+    }
+
+    checkKeys(value, ['timezone', 'windows', 'freezes'], 'schedule.', issues)
+
+    if (value.timezone !== undefined) {
+        const timezone = readString(value.timezone, 'schedule.timezone', issues)
+
+        try {
+            if (timezone !== undefined) {
+                new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+                schedule.timezone = timezone
+            }
+        } catch {
+            issues.push(`\`schedule.timezone\` must be an IANA time zone, e.g. \`Europe/Berlin\`.`)
+        }
+    }
+
+    if (value.windows !== undefined) {
+        schedule.windows = readList(value.windows, 'schedule.windows', issues, (raw, key) => {
+            checkKeys(raw, ['days', 'start', 'end'], `${key}.`, issues)
+            const days = raw.days !== undefined ? readEnumList(raw.days, `${key}.days`, weekdays, issues) : [...weekdays]
+            const start = readTime(raw.start, `${key}.start`, issues)
+            const end = readTime(raw.end, `${key}.end`, issues)
+
+            if (start !== undefined && end !== undefined && end <= start) {
+                issues.push(`\`${key}.end\` must be after \`${key}.start\`.`)
+                return []
+            }
+
+            return days && start !== undefined && end !== undefined ? [{ days, start, end }] : []
+        })
+    }
+
+    if (value.freezes !== undefined) {
+        schedule.freezes = readList(value.freezes, 'schedule.freezes', issues, (raw, key) => {
+            checkKeys(raw, ['from', 'to', 'reason'], `${key}.`, issues)
+            const from = readDate(raw.from, `${key}.from`, issues)
+            const to = readDate(raw.to, `${key}.to`, issues)
+
+            if (from === undefined || to === undefined) {
+                return []
+            }
+
+            if (to < from) {
+                issues.push(`\`${key}.to\` must not be before \`${key}.from\`.`)
+                return []
+            }
+
+            const reason = raw.reason !== undefined ? readString(raw.reason, `${key}.reason`, issues) : undefined
+            return [reason !== undefined ? { from, to, reason } : { from, to }]
+        })
+    }
+
+    return schedule
+}
+
+function readList<T>(value: unknown, key: string, issues: string[], readItem: (raw: Record<string, unknown>, key: string) => T[]): T[] {
+    if (!Array.isArray(value)) {
+        issues.push(`\`${key}\` must be a list.`)
+        return []
+    }
+
+    return value.flatMap((raw: unknown, index) => {
+        if (!isRecord(raw)) {
+            issues.push(`\`${key}[${index}]\` must be a mapping of keys to values.`)
+            return []
+        }
+
+        return readItem(raw, `${key}[${index}]`)
+    })
+}
+
+function readTime(value: unknown, key: string, issues: string[]): string | undefined {
+    // 24:00 closes a window at midnight
+    if (typeof value === 'string' && /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/.test(value)) {
+        return value
+    }
+
+    issues.push(`\`${key}\` must be a time of day as \`HH:MM\`.`)
+    return undefined
+}
+
+function readDate(value: unknown, key: string, issues: string[]): string | undefined {
+    // YAML parses unquoted dates as timestamps at midnight UTC
+    if (value instanceof Date && !Number.isNaN(value.getTime())) {
+        return value.toISOString().slice(0, 10)
+    }
+
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        return value
+    }
+
+    issues.push(`\`${key}\` must be a date as \`YYYY-MM-DD\`.`)
+    return undefined
+}
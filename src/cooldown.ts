@@ -0,0 +1,90 @@
+import type { CooldownConfig } from './config.ts'
+import type { DependencyUpdate } from './metadata.ts'
+
+const dayMilliseconds = 24 * 60 * 60 * 1000
+const registryTimeout = 5000 // Milliseconds to wait for a registry, so that a hanging one doesn't stall the evaluation
+
+/**
+ * The outcome of checking the minimum age of a pull request.
+ */
+export interface CooldownDecision {
+    /** Whether the pull request is old enough to be merged. */
+    ready: boolean
+    /** A human-readable explanation if the pull request is too young. */
+    reason?: string
+    /** When the pull request will be old enough, if it is too young. */
+    until?: Date
+}
+
+// Looks up the release date of a version in the package registry of an ecosystem
+type ReleaseDateLookup = (name: string, version: string) => Promise<string | undefined>
+
+// Registries that publish release dates, by ecosystem as in Dependabot branch names
+const releaseDateLookups: Record<string, ReleaseDateLookup> = {
+    npm_and_yarn: async (name, version) =>
+        ((await fetchJson(`https://registry.npmjs.org/${name.replace('/', '%2F')}`)) as { time?: Record<string, string> } | undefined)?.time?.[
+            version
+        ],
+    pip: async (name, version) =>
+        ((await fetchJson(`https://pypi.org/pypi/${name}/${version}/json`)) as { urls?: { upload_time_iso_8601: string }[] } | undefined)?.urls?.[0]
+            ?.upload_time_iso_8601,
+    cargo: async (name, version) =>
+        ((await fetchJson(`https://crates.io/api/v1/crates/${name}/${version}`)) as { version?: { created_at: string } } | undefined)?.version
+            ?.created_at,
+    bundler: async (name, version) =>
+        ((await fetchJson(`https://rubygems.org/api/v2/rubygems/${name}/versions/${version}.json`)) as { created_at?: string } | undefined)
+            ?.created_at
+}
+
+/**
+ * Checks whether a pull request has reached the minimum age configured for its ecosystem.
+ * The age is measured from the creation of the pull request, or from the release of the updated versions.
+ * Release dates are looked up in the registries of npm, PyPI, crates.io and RubyGems; an update whose release
+ * date is unknown is measured from the creation of the pull request instead.
+ * @param config The cooldown configuration.
+ * @param ecosystem The package ecosystem of the pull request, if known.
+ * @param createdAt When the pull request was created.
+ * @param updates The dependency updates of the pull request.
+ * @param now The current time.
+ * @returns The cooldown decision.
+ */
+export async function evaluateCooldown(
+    config: CooldownConfig,
+    ecosystem: string | undefined,
+    createdAt: string,
+    updates: DependencyUpdate[],
+    now = new Date()
+): Promise<CooldownDecision> {
+    const days = (ecosystem !== undefined ? config.ecosystems[ecosystem] : undefined) ?? config.days
+
+    if (days === 0) {
+        return { ready: true }
+    }
+
+    const lookup = ecosystem !== undefined ? releaseDateLookups[ecosystem] : undefined
+    let since = new Date(createdAt)
+    let source = 'the pull request was opened'
+
+    if (config.from === 'release' && lookup) {
+        // The youngest release of a grouped update decides
+        const releases = await Promise.all(updates.map(async u => (u.to ? await lookup(u.name, u.to).catch(() => undefined) : undefined)))
+
+        if (updates.length > 0 && releases.every(r => r !== undefined)) {
+            since = new Date(Math.max(...releases.map(r => Date.parse(r))))
+            source = 'the release'
+        }
+    }
+
+    const until = new Date(since.getTime() + days * dayMilliseconds)
+
+    if (until <= now) {
+        return { ready: true }
+    }
+
+    return { ready: false, reason: `Cooldown of ${days} days since ${source} ends at ${until.toISOString()}`, until }
+}
+
+async function fetchJson(url: string): Promise<unknown> {
+    const response = await fetch(url, { headers: { accept: 'application/json' }, signal: AbortSignal.timeout(registryTimeout) })
+    return response.ok ? await response.json() : undefined
+}
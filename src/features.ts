@@ -0,0 +1,93 @@
+import type { Context } from 'probot'
+import { compareVersions } from './metadata.ts'
+
+export const features = ['merge_queue'] as const
+
+/** A feature that GitHub Enterprise Server may lack, depending on its version. */
+export type Feature = (typeof features)[number]
+
+const branchRulesVersion = '3.10' // The first GitHub Enterprise Server version with the branch rules API
+
+const detected = new Map<string, Promise<boolean>>() // Whether a feature is supported, by installation ID and feature
+const serverVersions = new Map<string, Promise<string | undefined>>() // The GitHub Enterprise Server version, by API URL
+
+const mutationsQuery = `
+    query {
+        __type(name: "Mutation") {
+            fields {
+                name
+            }
+        }
+    }
+`
+
+/**
+ * Checks whether the GitHub server supports a feature, detecting it once per installation.
+ * github.com supports all features, while GitHub Enterprise Server may be older than a feature.
+ * @param installationId The installation ID, or undefined to detect the feature without caching the result.
+ * @param feature The feature.
+ * @param detect Detects whether the feature is supported.
+ * @returns Whether the feature is supported.
+ */
+export function supportsFeature(installationId: number | undefined, feature: Feature, detect: () => Promise<boolean>): Promise<boolean> {
+    const key = `${installationId}:${feature}`
+    const cached = installationId !== undefined ? detected.get(key) : undefined
+
+    if (cached) {
+        return cached
+    }
+
+    const supported = detect()
+
+    if (installationId !== undefined) {
+        detected.set(key, supported)
+        // A failed detection is retried with the next event
+        supported.catch(() => detected.delete(key))
+    }
+
+    return supported
+}
+
+/**
+ * Checks whether the GitHub server supports adding pull requests to the merge queue through the GraphQL API.
+ * @param octokit The authenticated Octokit instance.
+ * @param installationId The installation ID, or undefined to not cache the result.
+ * @returns Whether the merge queue is supported.
+ */
+export function supportsMergeQueue(octokit: Context['octokit'], installationId: number | undefined): Promise<boolean> {
+    return supportsFeature(installationId, 'merge_queue', async () => {
+        const mutations = (await octokit.graphql<{ __type: { fields: { name: string }[] } | null }>(mutationsQuery)).__type?.fields ?? []
+        return mutations.some(m => m.name === 'enqueuePullRequest')
+    })
+}
+
+/**
+ * Reads the version of GitHub Enterprise Server, once per server.
+ * @param octokit The authenticated Octokit instance.
+ * @returns The version, e.g. `3.9.4`, or undefined for github.com.
+ */
+export function getServerVersion(octokit: Context['octokit']): Promise<string | undefined> {
+    const baseUrl = octokit.request.endpoint.DEFAULTS.baseUrl
+    const cached = serverVersions.get(baseUrl)
+
+    if (cached) {
+        return cached
+    }
+
+    // Only GitHub Enterprise Server reports its version
+    const version = octokit.request('GET /meta').then(({ data }) => (data as { installed_version?: string }).installed_version)
+    serverVersions.set(baseUrl, version)
+    // A failed request is retried with the next event
+    version.catch(() => serverVersions.delete(baseUrl))
+    return version
+}
+
+/**
+ * Checks whether the GitHub server has the branch rules API, which GitHub Enterprise Server has since 3.10.
+ * @param octokit The authenticated Octokit instance.
+ * @returns Whether the branch rules API is supported.
+ */
+export async function supportsBranchRules(octokit: Context['octokit']): Promise<boolean> {
+    const version = await getServerVersion(octokit)
+    return version === undefined || (compareVersions(version, branchRulesVersion) ?? 0) >= 0
+}
@@ -0,0 +1,113 @@
+import type { Context } from 'probot'
+import { type BotAdapter, botAdapters } from './bots.ts'
+import { type BotName, botNames } from './config.ts'
+
+/**
+ * The bot users the app needs to recognize.
+ */
+export interface BotIdentities {
+    /** The login of the app's own bot user, e.g. `dependabot-steward[bot]`. */
+    steward: string
+    /** The logins of the users of each dependency bot. */
+    bots: Record<BotName, string[]>
+    /** The dependency bots whose logins `STEWARD_<NAME>_LOGINS` configures, which may be regular users. */
+    configured: BotName[]
+}
+
+/**
+ * A user as it appears in pull requests and reviews.
+ */
+export interface BotUser {
+    login: string
+    type?: string
+}
+
+const identities = new Map<number, Promise<BotIdentities>>() // Identities by installation ID
+
+/**
+ * Resolves the bot users the app needs to recognize, once per installation.
+ * The app's bot user is derived from the authenticated app, so that a self-hosted copy recognizes its own reviews.
+ * The dependency bots are recognized by their logins; `STEWARD_<NAME>_LOGINS` (comma-separated, e.g.
+ * `STEWARD_RENOVATE_LOGINS` for a self-hosted Renovate) and `STEWARD_BOT_LOGIN` override the logins,
+ * e.g. for GHES instances with different bot users.
+ * @param octokit The authenticated Octokit instance.
+ * @param installationId The installation ID, or undefined to resolve the identities without caching them.
+ * @param env The environment variables.
+ * @returns The bot identities.
+ */
+export function resolveIdentities(
+    octokit: Context['octokit'],
+    installationId: number | undefined,
+    env: NodeJS.ProcessEnv = process.env
+): Promise<BotIdentities> {
+    const cached = installationId !== undefined ? identities.get(installationId) : undefined
+
+    if (cached) {
+        return cached
+    }
+
+    const resolved = fetchIdentities(octokit, env)
+
+    if (installationId !== undefined) {
+        identities.set(installationId, resolved)
+        // A failed lookup is retried with the next event
+        resolved.catch(() => identities.delete(installationId))
+    }
+
+    return resolved
+}
+
+/**
+ * Identifies the dependency bot that created a pull request, by its author and head branch.
+ * @param identities The bot identities.
+ * @param user The author of the pull request.
+ * @param headBranch The head branch of the pull request.
+ * @returns The adapter of the bot, or undefined if the pull request is not from a dependency bot.
+ */
+export function identifyBot(identities: BotIdentities, user: BotUser | null | undefined, headBranch: string): BotAdapter | undefined {
+    if (!user) {
+        return undefined
+    }
+
+    // The bots on github.com are GitHub Apps, while a configured login may be a regular user, e.g. of a self-hosted Renovate
+    return botNames
+        .map(name => botAdapters[name])
+        .find(
+            bot =>
+                identities.bots[bot.name].includes(user.login) &&
+                (user.type === 'Bot' || identities.configured.includes(bot.name)) &&
+                (!bot.branchPrefix || headBranch.startsWith(bot.branchPrefix))
+        )
+}
+
+/**
+ * Checks whether a user is the app's own bot user.
+ * @param identities The bot identities.
+ * @param user The user.
+ * @returns Whether the user is the app.
+ */
+export function isSteward(identities: BotIdentities, user: BotUser | null | undefined): boolean {
+    return !!user && user.login === identities.steward
+}
+
+async function fetchIdentities(octokit: Context['octokit'], env: NodeJS.ProcessEnv): Promise<BotIdentities> {
+    const configuredLogins = (name: BotName) =>
+        env[`STEWARD_${name.toUpperCase().replaceAll('-', '_')}_LOGINS`]
+            ?.split(',')
+            .map(l => l.trim())
+            .filter(l => l.length > 0)
+    const configured = botNames.filter(name => configuredLogins(name) !== undefined)
+    const bots = Object.fromEntries(botNames.map(name => [name, configuredLogins(name) ?? botAdapters[name].logins])) as Record<BotName, string[]>
+
+    if (env.STEWARD_BOT_LOGIN) {
+        return { steward: env.STEWARD_BOT_LOGIN, bots, configured }
+    }
+
+    const app = (await octokit.rest.apps.getAuthenticated()).data
+
+    if (!app?.slug) {
+        throw new Error('Could not determine the slug of the authenticated app.')
+    }
+
+    return { steward: `${app.slug}[bot]`, bots, configured }
+}
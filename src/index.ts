@@ -1,24 +1,18 @@
-// Import necessary modules for Google Cloud Functions, Secret Manager, and Probot
+// Entry point for Google Cloud Functions; the secrets are read from Google Secret Manager unless configured otherwise
 import { http } from '@google-cloud/functions-framework'
-import { SecretManagerServiceClient } from '@google-cloud/secret-manager'
-import { createNodeMiddleware, Probot } from 'probot'
+import { createNodeMiddleware } from 'probot'
 import { appFn } from './app.ts'
+import { isAuthorizedSweep, loadProbot } from './runtime.ts'
+import { sweepPullRequests } from './sweep.ts'
 
-// Initialize Google Secret Manager client to access secrets securely
-const smsc = new SecretManagerServiceClient()
-
-// Retrieve GitHub App credentials from Google Secret Manager
-// These secrets are essential for the Probot app to authenticate with GitHub
-const [APP_ID] = await smsc.accessSecretVersion({ name: 'projects/197584535171/secrets/DEPBOT_APP_ID/versions/latest' })
-const [PRIVATE_KEY] = await smsc.accessSecretVersion({ name: 'projects/197584535171/secrets/DEPBOT_PRIVATE_KEY/versions/latest' })
-const [WEBHOOK_SECRET] = await smsc.accessSecretVersion({ name: 'projects/197584535171/secrets/DEPBOT_WEBHOOK_SECRET/versions/latest' })
-
-// Initialize Probot with the retrieved credentials
+// Initialize Probot with the credentials of the configured secrets provider, by default the DEPBOT_ secrets of the
+// existing deployment's project
 // Probot is a framework for building GitHub Apps
-const probot = new Probot({
-    appId: APP_ID.payload?.data?.toString(),
-    privateKey: PRIVATE_KEY.payload?.data?.toString(),
-    secret: WEBHOOK_SECRET.payload?.data?.toString()
+const probot = await loadProbot({
+    STEWARD_SECRETS_PROVIDER: 'gcp',
+    STEWARD_GCP_PROJECT: '197584535171',
+    STEWARD_GCP_SECRET_PREFIX: 'DEPBOT_',
+    ...process.env
 })
 
 // Create a Node.js middleware from the Probot app
@@ -27,5 +21,23 @@ const middleware = await createNodeMiddleware(appFn, { probot })
 // Register the Probot app as an HTTP function for Google Cloud Functions
 http('probotApp', middleware)
 
+// Register the sweep of open pull requests as an HTTP function, to be triggered periodically by Cloud Scheduler
+// It requires STEWARD_SWEEP_TOKEN as a bearer token, and is disabled without one
+http('sweep', async (req, res) => {
+    const sweepToken = process.env.STEWARD_SWEEP_TOKEN
+
+    if (!sweepToken) {
+        res.status(404).end()
+        return
+    }
+
+    if (!isAuthorizedSweep(req.headers.authorization, sweepToken)) {
+        res.status(401).end()
+        return
+    }
+
+    res.json(await sweepPullRequests(probot))
+})
+
 // Export the middleware for local development or other environments
 export const viteNodeApp = middleware
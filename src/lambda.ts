@@ -0,0 +1,93 @@
+// Entry point for AWS Lambda behind API Gateway or a function URL; an EventBridge schedule triggers the sweep
+import type { Probot } from 'probot'
+import { appFn } from './app.ts'
+import { loadProbot } from './runtime.ts'
+import { type SweepSummary, sweepPullRequests } from './sweep.ts'
+
+type WebhookEventName = Parameters<Probot['webhooks']['verifyAndReceive']>[0]['name']
+
+/**
+ * An HTTP request from API Gateway (payload format 1.0 or 2.0) or a function URL.
+ */
+export interface LambdaHttpEvent {
+    headers: Record<string, string | undefined>
+    body: string | null
+    isBase64Encoded?: boolean
+}
+
+/**
+ * A scheduled event from EventBridge.
+ */
+export interface LambdaScheduledEvent {
+    source: 'aws.events'
+    'detail-type': string
+}
+
+/**
+ * The response to an HTTP request.
+ */
+export interface LambdaHttpResponse {
+    statusCode: number
+    body: string
+}
+
+/**
+ * Creates a Lambda handler that receives webhooks from HTTP events and sweeps the pull requests on scheduled events.
+ * @param createProbot Creates the Probot instance on the first invocation.
+ * @returns The Lambda handler.
+ */
+export function createLambdaHandler(
+    createProbot: () => Promise<Probot>
+): (event: LambdaHttpEvent | LambdaScheduledEvent) => Promise<LambdaHttpResponse | SweepSummary> {
+    let ready: Promise<Probot> | undefined // The Probot instance with the app loaded, once per container
+
+    return async event => {
+        ready ??= createProbot().then(async p => {
+            await p.load(appFn)
+            return p
+        })
+        // A failed initialization is retried on the next invocation
+        const probot = await ready.catch((e: unknown) => {
+            ready = undefined
+            throw e
+        })
+
+        if ('source' in event && event.source === 'aws.events') {
+            return await sweepPullRequests(probot)
+        }
+
+        const { headers, body, isBase64Encoded } = event as LambdaHttpEvent
+        // Header names are lower case with payload format 2.0, but not necessarily with 1.0
+        const header = (name: string) => Object.entries(headers).find(([key]) => key.toLowerCase() === name)?.[1]
+        const id = header('x-github-delivery')
+        const name = header('x-github-event')
+        const signature = header('x-hub-signature-256')
+
+        if (!id || !name || !signature || !body) {
+            return { statusCode: 400, body: 'Not a GitHub webhook' }
+        }
+
+        try {
+            await probot.webhooks.verifyAndReceive({
+                id,
+                name: name as WebhookEventName,
+                signature,
+                payload: isBase64Encoded ? Buffer.from(body, 'base64').toString('utf8') : body
+            })
+            return { statusCode: 200, body: 'ok' }
+        } catch (e: unknown) {
+            probot.log.error(e, `Failed to handle the ${name} webhook ${id}.`)
+            // A wrong signature or payload is the sender's fault, errors of the handlers are the app's
+            return isBadRequest(e) ? { statusCode: 400, body: 'Invalid webhook' } : { statusCode: 500, body: 'Error' }
+        }
+    }
+}
+
+// @octokit/webhooks rejects an invalid signature or JSON payload with an error of status 400, wrapped in an AggregateError
+function isBadRequest(e: unknown): boolean {
+    const errors = e instanceof AggregateError ? e.errors : [e]
+    return errors.some(error => error instanceof Error && 'status' in error && error.status === 400)
+}
+
+/** The Lambda handler, creating the Probot instance with the configured secrets provider on the first invocation. */
+export const handler = createLambdaHandler(() => loadProbot())
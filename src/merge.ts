@@ -0,0 +1,193 @@
+import type { Context, Logger } from 'probot'
+import { type MergeMethod, mergeMethods } from './config.ts'
+import type { DependencyMetadata } from './metadata.ts'
+
+/**
+ * The result of enabling native auto-merge on a pull request.
+ * `clean` means the pull request is already mergeable, so GitHub refuses to enable auto-merge.
+ */
+export type AutoMergeResult = 'enabled' | 'clean' | 'failed'
+
+const enableAutoMergeMutation = `
+    mutation ($pullRequestId: ID!, $mergeMethod: PullRequestMergeMethod!, $commitHeadline: String, $commitBody: String) {
+        enablePullRequestAutoMerge(
+            input: { pullRequestId: $pullRequestId, mergeMethod: $mergeMethod, commitHeadline: $commitHeadline, commitBody: $commitBody }
+        ) {
+            pullRequest {
+                number
+            }
+        }
+    }
+`
+
+const enqueuePullRequestMutation = `
+    mutation ($pullRequestId: ID!, $expectedHeadOid: GitObjectID) {
+        enqueuePullRequest(input: { pullRequestId: $pullRequestId, expectedHeadOid: $expectedHeadOid }) {
+            mergeQueueEntry {
+                position
+            }
+        }
+    }
+`
+
+/**
+ * The repository settings that decide which merge methods are allowed.
+ */
+export interface MergeSettings {
+    allow_merge_commit?: boolean
+    allow_squash_merge?: boolean
+    allow_rebase_merge?: boolean
+}
+
+/**
+ * The parameters of a merge attempt.
+ */
+export interface MergeRequest {
+    owner: string
+    repo: string
+    pull_number: number
+    /** The merge methods to try, in order. */
+    methods: MergeMethod[]
+    /** The commit title for squash merges. */
+    commit_title?: string
+    /** The commit message for squash merges. */
+    commit_message?: string
+}
+
+/**
+ * Orders the merge methods allowed by the repository, preferred methods first.
+ * @param settings The repository settings.
+ * @param preferred The preferred merge methods from the configuration, if any.
+ * @returns The allowed merge methods to try, in order.
+ */
+export function selectMergeMethods(settings: MergeSettings, preferred: MergeMethod[] = []): MergeMethod[] {
+    const allowed: Record<MergeMethod, boolean | undefined> = {
+        merge: settings.allow_merge_commit,
+        squash: settings.allow_squash_merge,
+        rebase: settings.allow_rebase_merge
+    }
+
+    return [...new Set([...preferred, ...mergeMethods])].filter(m => allowed[m])
+}
+
+/**
+ * Renders a commit template, replacing `{dependency}`, `{from}`, `{to}` and `{pr_number}`.
+ * Unknown placeholders are left as they are.
+ * @param template The template.
+ * @param metadata The update metadata of the pull request.
+ * @param pull_number The pull request number.
+ * @returns The rendered text.
+ */
+export function renderTemplate(template: string, metadata: DependencyMetadata, pull_number: number): string {
+    const values: Record<string, string> = {
+        dependency: metadata.updates.map(u => u.name).join(', '),
+        from: metadata.updates.map(u => u.from ?? '?').join(', '),
+        to: metadata.updates.map(u => u.to ?? '?').join(', '),
+        pr_number: String(pull_number)
+    }
+
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder)
+}
+
+/**
+ * Merges a pull request with the first merge method that succeeds.
+ * A method rejected with 405 (Method Not Allowed) is skipped in favor of the next one.
+ * @param octokit The authenticated Octokit instance.
+ * @param log The logger.
+ * @param request The merge parameters.
+ * @returns The merge method used, or undefined if the pull request could not be merged.
+ */
+export async function mergePullRequest(octokit: Context['octokit'], log: Logger, request: MergeRequest): Promise<MergeMethod | undefined> {
+    const { owner, repo, pull_number, methods, commit_title, commit_message } = request
+
+    for (const merge_method of methods) {
+        // Rebase merges don't create a commit of their own, so the templates only apply to squash merges
+        const commit = merge_method === 'squash' ? { ...(commit_title && { commit_title }), ...(commit_message && { commit_message }) } : {}
+
+        try {
+            await octokit.rest.pulls.merge({ owner, repo, pull_number, merge_method, ...commit })
+            log.info(`Successfully merged pull request #${pull_number} using ${merge_method} method.`)
+            return merge_method
+        } catch (e: unknown) {
+            if (e instanceof Error && 'status' in e && e.status === 405) {
+                log.warn(`Pull request #${pull_number}: Merge method ${merge_method} was rejected (${e.message}), trying the next one.`)
+                continue
+            }
+
+            log.error(e)
+            return undefined
+        }
+    }
+
+    log.error(`Pull request #${pull_number}: No merge method succeeded.`)
+    return undefined
+}
+
+/**
+ * Enables GitHub's native auto-merge on a pull request, so that GitHub merges it once all requirements are met.
+ * @param octokit The authenticated Octokit instance.
+ * @param log The logger.
+ * @param pullRequestId The GraphQL node ID of the pull request.
+ * @param request The merge parameters; only the first method is used.
+ * @returns Whether auto-merge was enabled, or whether the pull request is already mergeable.
+ */
+export async function enableAutoMerge(
+    octokit: Context['octokit'],
+    log: Logger,
+    pullRequestId: string,
+    request: MergeRequest
+): Promise<AutoMergeResult> {
+    const { pull_number, methods, commit_title, commit_message } = request
+    const merge_method = methods[0]
+
+    try {
+        await octokit.graphql(enableAutoMergeMutation, {
+            pullRequestId,
+            mergeMethod: merge_method.toUpperCase(),
+            // Rebase merges don't create a commit of their own, so the templates only apply to squash merges
+            ...(merge_method === 'squash' ? { commitHeadline: commit_title, commitBody: commit_message } : {})
+        })
+        log.info(`Enabled auto-merge for pull request #${pull_number} using ${merge_method} method.`)
+        return 'enabled'
+    } catch (e: unknown) {
+        if (e instanceof Error && e.message.includes('clean status')) {
+            log.info(`Pull request #${pull_number} is already mergeable, so auto-merge cannot be enabled.`)
+            return 'clean'
+        }
+
+        log.error(e)
+        return 'failed'
+    }
+}
+
+/**
+ * Adds a pull request to the merge queue of its base branch, which rejects direct merges.
+ * The merge queue merges the pull request with its own merge method once the merge group passes the required checks.
+ * @param octokit The authenticated Octokit instance.
+ * @param log The logger.
+ * @param pullRequestId The GraphQL node ID of the pull request.
+ * @param pull_number The pull request number.
+ * @param headSha The head commit that was evaluated, so that a pull request updated in the meantime is not queued.
+ * @returns Whether the pull request was added to the merge queue.
+ */
+export async function enqueuePullRequest(
+    octokit: Context['octokit'],
+    log: Logger,
+    pullRequestId: string,
+    pull_number: number,
+    headSha: string
+): Promise<boolean> {
+    try {
+        const result = await octokit.graphql<{ enqueuePullRequest: { mergeQueueEntry: { position: number } | null } }>(enqueuePullRequestMutation, {
+            pullRequestId,
+            expectedHeadOid: headSha
+        })
+        log.info(
+            `Added pull request #${pull_number} to the merge queue at position ${result.enqueuePullRequest.mergeQueueEntry?.position ?? 'unknown'}.`
+        )
+        return true
+    } catch (e: unknown) {
+        log.error(e)
+        return false
+    }
+}
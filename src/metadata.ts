@@ -0,0 +1,321 @@
+import type { UpdateType } from './config.ts'
+
+/**
+ * A single dependency update described by the pull request of a dependency bot.
+ */
+export interface DependencyUpdate {
+    /** The dependency name, e.g. `lodash`, `actions/checkout` or `github.com/stretchr/testify`. */
+    name: string
+    /** The version updated from, if known. */
+    from?: string
+    /** The version updated to, if known. */
+    to?: string
+    /** The semver update type, as stated by the bot or derived from the versions. */
+    updateType?: UpdateType
+    /** The dependency type as stated by the bot, e.g. `direct:production` or `devDependencies`. */
+    dependencyType?: string
+}
+
+/**
+ * The update metadata of the pull request of a dependency bot.
+ */
+export interface DependencyMetadata {
+    /** The package ecosystem, as in the `dependabot/<ecosystem>/...` branch name, if known. */
+    ecosystem?: string
+    /** The name of the dependency group for grouped updates. */
+    group?: string
+    /** The updated dependencies; a single one unless the pull request is a grouped or multi-dependency update. */
+    updates: DependencyUpdate[]
+}
+
+/**
+ * The texts of a Dependabot pull request that describe the update.
+ */
+export interface DependabotMessage {
+    /** The pull request title. */
+    title?: string | null
+    /** The pull request body. */
+    body?: string | null
+    /** The message of the commit created by Dependabot, which carries the `updated-dependencies` trailers. */
+    commitMessage?: string | null
+}
+
+// "Bump lodash from 4.17.20 to 4.17.21 in /app", optionally prefixed like "build(deps): bump ..."
+const titleBumpPattern = /(?:^|:\s*)bump (\S+) from (\S+) to (\S+?)(?: in \S+)?$/i
+// "Update rake requirement from ~> 10.0 to ~> 12.0 in /app"
+const titleRequirementPattern = /(?:^|:\s*)update (\S+) requirement from (.+?) to (.+?)(?: in \S+)?$/i
+// "Bumps [lodash](https://github.com/lodash/lodash) from 4.17.20 to 4.17.21." or "Bumps node from 18-alpine to 20-alpine."
+const bodyBumpPattern = /^Bumps \[?([^\]\s]+?)\]?(?:\([^)\s]*\))? from (\S+) to (\S+?)(?: in \S+?)?\.?$/gm
+// "Bump the npm-deps group across 2 directories with 5 updates", "Bump the npm-deps group in /app with 2 updates"
+const titleGroupPattern = /(?:^|:\s*)bump the (\S+) group\b/i
+// "Updates `lodash` from 4.17.20 to 4.17.21" for each member of a grouped update
+const bodyGroupMemberPattern = /^Updates `([^`]+)` from (\S+) to (\S+?)\.?$/gm
+// "- dependency-name: lodash" and the keys following it in the `updated-dependencies` trailer block
+const trailerEntryPattern = /^(-\s+|\s+)([a-z-]+):\s*(.*)$/
+// "Update dependency lodash to v4.17.21" or "chore(deps): update actions/checkout action to v4", for PRs without a table
+const renovateTitlePattern = /(?:^|:\s*)update (?:dependency )?(\S+?)(?: [a-z]+)? to (\S+)$/i
+// "`4.17.20` -> `4.17.21`" in the change column; newer Renovate versions use an arrow
+const renovateChangePattern = /`([^`]+)`\s*(?:->|→)\s*`([^`]+)`/
+// "https://renovatebot.com/diffs/npm/lodash/..." or an age badge "https://developer.mend.io/api/mc/badges/age/npm/lodash/..."
+const renovateDatasourcePattern = /(?:renovatebot\.com\/diffs|badges\/[a-z]+)\/([a-z-]+)\//
+// "- [github.com/psf/black: 23.1.0 → 23.3.0](https://github.com/psf/black/compare/23.1.0...23.3.0)"
+const preCommitUpdatePattern = /^- \[(\S+): (\S+) → (\S+)\]/gm
+
+// Renovate datasources, mapped to the ecosystem names Dependabot uses in its branch names
+const renovateDatasources: Record<string, string> = {
+    npm: 'npm_and_yarn',
+    pypi: 'pip',
+    rubygems: 'bundler',
+    crate: 'cargo',
+    go: 'go_modules',
+    maven: 'maven',
+    nuget: 'nuget',
+    docker: 'docker',
+    packagist: 'composer',
+    hex: 'mix',
+    pub: 'pub',
+    'github-tags': 'github_actions',
+    'terraform-module': 'terraform',
+    'terraform-provider': 'terraform'
+}
+
+/**
+ * Parses the dependency updates described by a Dependabot pull request, including every member of a grouped update.
+ * The `updated-dependencies` commit trailers are authoritative; the title and body fill in the versions.
+ * @param message The title, body and commit message of the pull request.
+ * @returns The update metadata, with no updates if the pull request could not be parsed.
+ */
+export function parseDependabotMessage(message: DependabotMessage): DependencyMetadata {
+    const described = [...parseTitle(message.title), ...parseBody(message.body)]
+    const trailers = parseTrailers(message.commitMessage)
+    const updates: DependencyUpdate[] = []
+
+    // Grouped updates across directories list the same dependency once per directory
+    for (const update of trailers.length > 0 ? trailers : described) {
+        if (updates.some(u => u.name === update.name)) {
+            continue
+        }
+
+        const versions = described.find(d => d.name === update.name)
+        updates.push({ ...versions, ...update, from: versions?.from, to: update.to ?? versions?.to })
+    }
+
+    const group = message.title ? titleGroupPattern.exec(message.title.trim())?.[1] : undefined
+
+    return {
+        ...(group ? { group } : {}),
+        // Derive the update type from the versions where Dependabot did not state it
+        updates: updates.map(u => (u.updateType || !u.from || !u.to ? u : { ...u, updateType: classifyUpdate(u.from, u.to) }))
+    }
+}
+
+/**
+ * Parses the dependency updates described by a Renovate pull request from the table in its body, e.g.
+ * `| [lodash](https://lodash.com/) | [\`4.17.20\` -> \`4.17.21\`](https://renovatebot.com/diffs/npm/lodash/4.17.20/4.17.21) |`.
+ * The `Update` and `Type` columns are used where the repository's Renovate configuration adds them; the ecosystem is
+ * derived from the datasource in the links. Pull requests without a table fall back to the title.
+ * @param message The title and body of the pull request.
+ * @returns The update metadata, with no updates if the pull request could not be parsed.
+ */
+export function parseRenovateMessage(message: Omit<DependabotMessage, 'commitMessage'>): DependencyMetadata {
+    const rows = parseTable(message.body)
+    const updates: DependencyUpdate[] = []
+    const ecosystems = new Set<string | undefined>()
+
+    for (const row of rows) {
+        const name = /^\[([^\]]+)\]|^`?([^`\s(]+)/.exec(row.Package ?? '')
+        const change = renovateChangePattern.exec(row.Change ?? '')
+
+        if (!name) {
+            continue
+        }
+
+        const updateType = /^(patch|minor|major)$/.exec(row.Update ?? '')?.[1] as UpdateType | undefined
+        updates.push({
+            name: (name[1] ?? name[2]).replace(/`/g, ''),
+            ...(change ? { from: change[1], to: change[2] } : {}),
+            ...(updateType ? { updateType } : {}),
+            ...(row.Type ? { dependencyType: row.Type } : {})
+        })
+
+        const datasource = renovateDatasourcePattern.exec(Object.values(row).join(' '))?.[1]
+        ecosystems.add(datasource !== undefined ? renovateDatasources[datasource] : undefined)
+    }
+
+    if (updates.length === 0) {
+        const match = message.title ? renovateTitlePattern.exec(message.title.trim()) : null
+
+        if (match) {
+            updates.push({ name: match[1], to: match[2] })
+        }
+    }
+
+    // Only an ecosystem shared by all updates applies to the pull request
+    const ecosystem = ecosystems.size === 1 ? [...ecosystems][0] : undefined
+
+    return {
+        ...(ecosystem ? { ecosystem } : {}),
+        updates: updates.map(u => (u.updateType || !u.from || !u.to ? u : { ...u, updateType: classifyUpdate(u.from, u.to) }))
+    }
+}
+
+/**
+ * Parses the hook updates of a pre-commit.ci autoupdate pull request, e.g.
+ * `- [github.com/psf/black: 23.1.0 → 23.3.0](https://github.com/psf/black/compare/23.1.0...23.3.0)`.
+ * @param message The body of the pull request.
+ * @returns The update metadata in the `pre_commit` ecosystem, with no updates if the pull request could not be parsed.
+ */
+export function parsePreCommitMessage(message: Pick<DependabotMessage, 'body'>): DependencyMetadata {
+    const matches = message.body ? [...message.body.matchAll(preCommitUpdatePattern)] : []
+
+    return {
+        ecosystem: 'pre_commit',
+        updates: matches.map(m => {
+            const updateType = classifyUpdate(m[2], m[3])
+            return { name: m[1], from: m[2], to: m[3], ...(updateType ? { updateType } : {}) }
+        })
+    }
+}
+
+/**
+ * Classifies a version change as a semver patch, minor or major update.
+ * @param from The version updated from.
+ * @param to The version updated to.
+ * @returns The update type, or undefined if either version is not numeric (e.g. a commit SHA).
+ */
+export function classifyUpdate(from: string, to: string): UpdateType | undefined {
+    const fromParts = parseVersion(from)
+    const toParts = parseVersion(to)
+
+    if (!fromParts || !toParts) {
+        return undefined
+    }
+
+    if (fromParts[0] !== toParts[0]) {
+        return 'major'
+    }
+
+    if (fromParts[1] !== toParts[1]) {
+        return 'minor'
+    }
+
+    return 'patch'
+}
+
+/**
+ * Compares two versions by their major, minor and patch numbers.
+ * @param a The first version.
+ * @param b The second version.
+ * @returns A negative number if a is lower, a positive number if it is higher, 0 if they are equal, or undefined if
+ * either version is not numeric.
+ */
+export function compareVersions(a: string, b: string): number | undefined {
+    const aParts = parseVersion(a)
+    const bParts = parseVersion(b)
+
+    if (!aParts || !bParts) {
+        return undefined
+    }
+
+    return aParts.map((part, i) => part - bParts[i]).find(d => d !== 0) ?? 0
+}
+
+function parseVersion(version: string): number[] | undefined {
+    // Accepts "1", "v1.2", "1.2.3", "18-alpine", "1.2.3-beta.1" and Go pseudo-versions, but not commit SHAs
+    const match = /^[~^=<>\s]*v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?=$|[-+._\s])/.exec(version)
+    return match ? [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)] : undefined
+}
+
+function parseTitle(title: string | null | undefined): DependencyUpdate[] {
+    const match = title ? (titleBumpPattern.exec(title.trim()) ?? titleRequirementPattern.exec(title.trim())) : null
+    return match ? [{ name: match[1], from: match[2], to: match[3] }] : []
+}
+
+function parseBody(body: string | null | undefined): DependencyUpdate[] {
+    const matches = body ? [...body.matchAll(bodyBumpPattern), ...body.matchAll(bodyGroupMemberPattern)] : []
+    return matches.map(m => ({ name: m[1], from: m[2], to: m[3] }))
+}
+
+function parseTrailers(commitMessage: string | null | undefined): DependencyUpdate[] {
+    const lines = commitMessage?.split(/\r?\n/) ?? []
+    const start = lines.findIndex(l => l.trim() === 'updated-dependencies:')
+    const updates: DependencyUpdate[] = []
+
+    if (start === -1) {
+        return updates
+    }
+
+    for (const line of lines.slice(start + 1)) {
+        const match = trailerEntryPattern.exec(line)
+
+        // The YAML document ends with "..." or the first line that is not part of the list
+        if (!match) {
+            break
+        }
+
+        const [, prefix, key, rawValue] = match
+        const value = rawValue.trim().replace(/^(["'])(.*)\1$/, '$2')
+
+        if (prefix.startsWith('-')) {
+            updates.push({ name: '' })
+        }
+
+        const current = updates.at(-1)
+
+        if (!current) {
+            break
+        }
+
+        switch (key) {
+            case 'dependency-name':
+                current.name = value
+                break
+            case 'dependency-version':
+                current.to = value
+                break
+            case 'dependency-type':
+                current.dependencyType = value
+                break
+            case 'update-type': {
+                const updateType = /^version-update:semver-(patch|minor|major)$/.exec(value)?.[1]
+                current.updateType = updateType as UpdateType | undefined
+                break
+            }
+        }
+    }
+
+    return updates.filter(u => u.name)
+}
+
+// Reads the rows of the first Markdown table with `Package` and `Change` columns, keyed by the column headers
+function parseTable(body: string | null | undefined): Record<string, string>[] {
+    const lines = body?.split(/\r?\n/).map(l => l.trim()) ?? []
+    const start = lines.findIndex(l => /^\|\s*Package\s*\|/.test(l) && /\|\s*Change\s*\|/.test(l))
+
+    if (start === -1) {
+        return []
+    }
+
+    const headers = splitRow(lines[start])
+    const rows: Record<string, string>[] = []
+
+    // The header is followed by the delimiter row, e.g. "|---|---|"
+    for (const line of lines.slice(start + 2)) {
+        if (!line.startsWith('|')) {
+            break
+        }
+
+        const cells = splitRow(line)
+        rows.push(Object.fromEntries(headers.map((h, i) => [h, cells[i] ?? ''])))
+    }
+
+    return rows
+}
+
+function splitRow(line: string): string[] {
+    return line
+        .replace(/^\|/, '')
+        .replace(/\|$/, '')
+        .split('|')
+        .map(c => c.trim())
+}
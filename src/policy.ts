@@ -0,0 +1,96 @@
+import type { StewardConfig } from './config.ts'
+import type { DependencyUpdate } from './metadata.ts'
+import { describeRule, findMatchingRule } from './rules.ts'
+
+/**
+ * The outcome of applying the merge policy to a single dependency update.
+ */
+export interface UpdateDecision {
+    /** The dependency update. */
+    update: DependencyUpdate
+    /** Whether the update may be merged. */
+    allowed: boolean
+    /** A human-readable explanation of the decision. */
+    reason: string
+    /** The rule that decided, if any. */
+    rule?: string
+}
+
+/**
+ * The outcome of applying the merge policy to a pull request.
+ */
+export interface PolicyDecision {
+    /** Whether the pull request may be merged, i.e. whether every update is allowed. */
+    allowed: boolean
+    /** A human-readable explanation of the decision. */
+    reason: string
+    /** The rules that decided, if any. */
+    rule?: string
+    /** The updates that blocked the merge. */
+    blocked: UpdateDecision[]
+}
+
+/**
+ * Applies the configured merge policy to a single dependency update.
+ * The first matching rule decides; without a matching rule, the update type must be allowed.
+ * An update whose type cannot be determined is treated like a major update.
+ * @param config The repository configuration.
+ * @param update The dependency update.
+ * @param ecosystem The package ecosystem of the pull request, if known.
+ * @returns The decision for the update.
+ */
+export function evaluateUpdate(config: StewardConfig, update: DependencyUpdate, ecosystem: string | undefined): UpdateDecision {
+    const match = findMatchingRule(config.rules, update, ecosystem)
+
+    if (match) {
+        const rule = describeRule(match)
+        const allowed = match.rule.action === 'allow'
+        const reason = `${describeUpdate(update)} is ${allowed ? 'allowed' : 'denied'} by ${rule}${match.rule.reason ? `: ${match.rule.reason}` : ''}`
+        return { update, allowed, reason, rule }
+    }
+
+    if (config.update_types.includes(update.updateType ?? 'major')) {
+        return { update, allowed: true, reason: `${describeUpdate(update)} is an allowed ${update.updateType ?? 'unknown'} update` }
+    }
+
+    return { update, allowed: false, reason: `${describeUpdate(update)} is a ${update.updateType ?? 'unknown'} update, which is not allowed` }
+}
+
+/**
+ * Applies the configured merge policy to every dependency update of a pull request.
+ * The pull request may only be merged if all of its updates are allowed.
+ * @param config The repository configuration.
+ * @param updates The dependency updates parsed from the pull request.
+ * @param ecosystem The package ecosystem of the pull request, if known.
+ * @returns The policy decision, listing the updates that blocked the merge.
+ */
+export function evaluatePolicy(config: StewardConfig, updates: DependencyUpdate[], ecosystem: string | undefined): PolicyDecision {
+    if (updates.length === 0) {
+        return { allowed: false, reason: 'the updated dependencies could not be determined', blocked: [] }
+    }
+
+    const decisions = updates.map(u => evaluateUpdate(config, u, ecosystem))
+    const blocked = decisions.filter(d => !d.allowed)
+    const deciding = blocked.length > 0 ? blocked : decisions
+    const rules = [...new Set(deciding.flatMap(d => (d.rule ? [d.rule] : [])))]
+    let reason: string
+
+    if (blocked.length === 0) {
+        reason = decisions.map(d => d.reason).join('; ')
+    } else if (updates.length === 1) {
+        reason = blocked[0].reason
+    } else {
+        reason = `${blocked.length} of ${updates.length} updated dependencies are not allowed (${blocked.map(b => b.update.name).join(', ')})`
+    }
+
+    return { allowed: blocked.length === 0, reason, ...(rules.length > 0 ? { rule: rules.join(', ') } : {}), blocked }
+}
+
+/**
+ * Describes a dependency update for logs and reports.
+ * @param update The dependency update.
+ * @returns E.g. "lodash 4.17.20 → 4.17.21".
+ */
+export function describeUpdate(update: DependencyUpdate): string {
+    return update.from && update.to ? `${update.name} ${update.from} → ${update.to}` : update.name
+}
@@ -0,0 +1,128 @@
+import type { Context, Logger } from 'probot'
+import { supportsBranchRules } from './features.ts'
+import type { BranchRule } from './ruleset.ts'
+
+type BranchProtection = Awaited<ReturnType<Context['octokit']['rest']['repos']['getBranchProtection']>>['data']
+
+/**
+ * The branch whose rules are read.
+ */
+export interface ProtectedBranch {
+    owner: string
+    repo: string
+    branch: string
+}
+
+/**
+ * Reads the rules that apply to a branch. GitHub Enterprise Server versions without the branch rules API
+ * only have classic branch protection, which is read instead and converted to the equivalent rules.
+ * @param octokit The authenticated Octokit instance.
+ * @param log The logger.
+ * @param target The branch.
+ * @returns The rules of the branch.
+ */
+export async function getBranchRules(octokit: Context['octokit'], log: Logger, target: ProtectedBranch): Promise<BranchRule[]> {
+    const { owner, repo, branch } = target
+
+    if (!(await supportsBranchRules(octokit))) {
+        log.info(`The branch rules API is not available, reading the classic branch protection of ${branch} instead.`)
+        return await getClassicBranchRules(octokit, log, target)
+    }
+
+    return (await octokit.rest.repos.getBranchRules({ owner, repo, branch })).data
+}
+
+/**
+ * Reads the classic branch protection of a branch as the equivalent branch rules.
+ * Reading branch protection requires the `administration` read permission; without it, the branch is treated as
+ * unprotected and GitHub rejects merges that violate the protection.
+ * @param octokit The authenticated Octokit instance.
+ * @param log The logger.
+ * @param target The branch.
+ * @returns The rules of the branch, without a ruleset.
+ */
+export async function getClassicBranchRules(octokit: Context['octokit'], log: Logger, target: ProtectedBranch): Promise<BranchRule[]> {
+    const { owner, repo, branch } = target
+    let protection: BranchProtection
+
+    try {
+        protection = (await octokit.rest.repos.getBranchProtection({ owner, repo, branch })).data
+    } catch (e: unknown) {
+        // 404 means the branch is not protected
+        if (e instanceof Error && 'status' in e && (e.status === 404 || e.status === 403)) {
+            if (e.status === 403) {
+                log.warn(`Not allowed to read the branch protection of ${branch}, treating it as unprotected.`)
+            }
+
+            return []
+        }
+
+        throw e
+    }
+
+    return convertBranchProtection(protection)
+}
+
+/**
+ * Converts classic branch protection to the equivalent branch rules.
+ * @param protection The branch protection.
+ * @returns The branch rules.
+ */
+export function convertBranchProtection(protection: BranchProtection): BranchRule[] {
+    const rules: BranchRule[] = []
+    const statusChecks = protection.required_status_checks
+
+    if (statusChecks) {
+        // Older servers only list the contexts, without the apps
+        const checks = statusChecks.checks ?? (statusChecks.contexts ?? []).map(context => ({ context, app_id: null }))
+        rules.push({
+            type: 'required_status_checks',
+            parameters: {
+                required_status_checks: checks.map(c =>
+                    c.app_id === null ? { context: c.context } : { context: c.context, integration_id: c.app_id }
+                ),
+                strict_required_status_checks_policy: statusChecks.strict ?? false
+            }
+        })
+    }
+
+    const reviews = protection.required_pull_request_reviews
+
+    if (reviews) {
+        rules.push({
+            type: 'pull_request',
+            parameters: {
+                dismiss_stale_reviews_on_push: reviews.dismiss_stale_reviews,
+                require_code_owner_review: reviews.require_code_owner_reviews,
+                require_last_push_approval: reviews.require_last_push_approval ?? false,
+                required_approving_review_count: reviews.required_approving_review_count ?? 0,
+                required_review_thread_resolution: protection.required_conversation_resolution?.enabled ?? false
+            }
+        })
+    } else if (protection.required_conversation_resolution?.enabled) {
+        rules.push({
+            type: 'pull_request',
+            parameters: {
+                dismiss_stale_reviews_on_push: false,
+                require_code_owner_review: false,
+                require_last_push_approval: false,
+                required_approving_review_count: 0,
+                required_review_thread_resolution: true
+            }
+        })
+    }
+
+    if (protection.required_linear_history?.enabled) {
+        rules.push({ type: 'required_linear_history' })
+    }
+
+    if (protection.required_signatures?.enabled) {
+        rules.push({ type: 'required_signatures' })
+    }
+
+    if (protection.lock_branch?.enabled) {
+        rules.push({ type: 'update' })
+    }
+
+    return rules
+}
@@ -0,0 +1,202 @@
+import type { Context, Logger } from 'probot'
+import type { CheckEvaluation } from './checks.ts'
+import type { ReportMode } from './config.ts'
+import type { BranchRuleEvaluation } from './ruleset.ts'
+
+export const checkRunName = 'Dependabot Steward' // Name of the check run that explains the app's decisions
+
+const commentMarker = '<!-- dependabot-steward -->' // Hidden marker identifying the comment maintained by the app
+
+/**
+ * The outcome of evaluating a pull request.
+ */
+export interface Evaluation {
+    /** The pull request number. */
+    pull_number: number
+    /** What the app did with the pull request. */
+    outcome: 'merged' | 'auto_merge' | 'queued' | 'deferred' | 'dry_run' | 'skipped' | 'failed'
+    /** A human-readable explanation of the outcome. */
+    reason: string
+    /** The dependency rules that decided, if any. */
+    rule?: string
+    /** The reasons of the updated dependencies that blocked the merge, for grouped updates. */
+    blocked?: string[]
+    /** The evaluation of the required checks, if it got that far. */
+    checks?: CheckEvaluation
+    /** The evaluation of the branch rules, if it got that far. */
+    branchRules?: BranchRuleEvaluation
+    /** The failed required checks that are re-run. */
+    retried?: string[]
+    /** The security advisories the pull request fixes, if it is a security update. */
+    advisories?: string[]
+}
+
+/**
+ * The pull request a report is published on.
+ */
+export interface ReportTarget {
+    owner: string
+    repo: string
+    pull_number: number
+    /** The head commit of the pull request, which the check run is attached to. */
+    head_sha: string
+}
+
+const outcomeTitles: Record<Evaluation['outcome'], string> = {
+    merged: 'Merged',
+    auto_merge: 'Auto-merge enabled',
+    queued: 'Queued',
+    deferred: 'Deferred',
+    dry_run: 'Dry run',
+    skipped: 'Not merged',
+    failed: 'Merge failed'
+}
+
+const neutralOutcomes: Evaluation['outcome'][] = ['deferred', 'dry_run', 'skipped'] // Outcomes that leave the pull request unmerged
+
+/**
+ * Renders an evaluation as a Markdown report.
+ * @param evaluation The evaluation.
+ * @returns The title and the Markdown summary of the report.
+ */
+export function renderReport(evaluation: Evaluation): { title: string; summary: string } {
+    const lines = [`**Decision:** ${outcomeTitles[evaluation.outcome]}. ${evaluation.reason}.`]
+
+    if (evaluation.rule) {
+        lines.push(`**Rule:** ${evaluation.rule}`)
+    }
+
+    if (evaluation.blocked && evaluation.blocked.length > 0) {
+        lines.push('**Blocked by:**', ...evaluation.blocked.map(b => `- ${b}`))
+    }
+
+    if (evaluation.advisories && evaluation.advisories.length > 0) {
+        lines.push('**Security advisories:**', ...evaluation.advisories.map(a => `- ${a}`))
+    }
+
+    const checks = evaluation.checks
+    const checkLists: [string, string[] | undefined][] = [
+        ['Missing required checks', checks?.missing],
+        ['Failed required checks', checks?.failed],
+        ['Pending checks', checks?.pending],
+        ['Re-running checks', evaluation.retried]
+    ]
+
+    for (const [heading, names] of checkLists) {
+        if (names && names.length > 0) {
+            lines.push(`**${heading}:**`, ...names.map(n => `- \`${n}\``))
+        }
+    }
+
+    const branchRules = evaluation.branchRules
+    const ruleLists: [string, string[] | undefined][] = [
+        ['Unsatisfiable branch rules', branchRules?.unsatisfied],
+        ['Pending branch rules', branchRules?.pending],
+        ['Bypassed branch rules', branchRules?.bypassed]
+    ]
+
+    for (const [heading, rules] of ruleLists) {
+        if (rules && rules.length > 0) {
+            lines.push(`**${heading}:**`, ...rules.map(r => `- ${r}`))
+        }
+    }
+
+    return { title: `${outcomeTitles[evaluation.outcome]}: ${evaluation.reason}`, summary: lines.join('\n') }
+}
+
+/**
+ * Publishes the decision about a pull request, so that developers don't need the app's logs to understand it.
+ * In `check_run` mode the decision is a check run on the head commit; if the app lacks the permission to create
+ * check runs, it falls back to the comment.
+ * In `comment` mode it's a single comment that is kept up to date; a merge only updates an existing comment.
+ * @param octokit The authenticated Octokit instance.
+ * @param log The logger.
+ * @param target The pull request.
+ * @param mode How to publish the decision.
+ * @param evaluation The evaluation.
+ */
+export async function publishReport(
+    octokit: Context['octokit'],
+    log: Logger,
+    target: ReportTarget,
+    mode: ReportMode,
+    evaluation: Evaluation
+): Promise<void> {
+    const { owner, repo, pull_number, head_sha } = target
+    const { title, summary } = renderReport(evaluation)
+
+    if (mode === 'none') {
+        return
+    }
+
+    if (mode === 'check_run') {
+        try {
+            await upsertCheckRun(octokit, owner, repo, head_sha, evaluation, title, summary)
+            return
+        } catch (e: unknown) {
+            if (!(e instanceof Error && 'status' in e && e.status === 403)) {
+                throw e
+            }
+
+            log.warn(`Pull request #${pull_number}: Not allowed to create check runs, reporting with a comment instead.`)
+        }
+    }
+
+    const merged = evaluation.outcome === 'merged' || evaluation.outcome === 'auto_merge' || evaluation.outcome === 'queued'
+    await upsertComment(octokit, owner, repo, pull_number, `### ${checkRunName}\n\n${summary}`, !merged)
+}
+
+/**
+ * Creates the app's comment on a pull request, or updates it if it already exists,
+ * so that the pull request carries at most one comment from the app.
+ * @param octokit The authenticated Octokit instance.
+ * @param owner The repository owner.
+ * @param repo The repository name.
+ * @param issue_number The pull request number.
+ * @param body The Markdown body of the comment.
+ * @param create Whether to create the comment if it doesn't exist yet.
+ */
+export async function upsertComment(
+    octokit: Context['octokit'],
+    owner: string,
+    repo: string,
+    issue_number: number,
+    body: string,
+    create = true
+): Promise<void> {
+    const fullBody = `${commentMarker}\n${body}`
+    const comments = await octokit.paginate(octokit.rest.issues.listComments, { owner, repo, issue_number, per_page: 100 })
+    const existing = comments.find(c => c.body?.startsWith(commentMarker))
+
+    if (!existing) {
+        if (create) {
+            await octokit.rest.issues.createComment({ owner, repo, issue_number, body: fullBody })
+        }
+    } else if (existing.body !== fullBody) {
+        await octokit.rest.issues.updateComment({ owner, repo, comment_id: existing.id, body: fullBody })
+    }
+}
+
+async function upsertCheckRun(
+    octokit: Context['octokit'],
+    owner: string,
+    repo: string,
+    head_sha: string,
+    evaluation: Evaluation,
+    title: string,
+    summary: string
+): Promise<void> {
+    // Not merging is not a failure of the pull request, so it must not turn the check red
+    const conclusion = evaluation.outcome === 'failed' ? 'failure' : neutralOutcomes.includes(evaluation.outcome) ? 'neutral' : 'success'
+    // The check run title is limited in length, while the summary carries the details
+    const output = { title: title.length > 255 ? `${title.slice(0, 254)}…` : title, summary }
+    const existing = (await octokit.rest.checks.listForRef({ owner, repo, ref: head_sha, check_name: checkRunName, filter: 'latest' })).data
+        .check_runs[0]
+
+    if (!existing) {
+        await octokit.rest.checks.create({ owner, repo, head_sha, name: checkRunName, status: 'completed', conclusion, output })
+    } else if (existing.conclusion !== conclusion || existing.output.title !== output.title || existing.output.summary !== summary) {
+        // Updating only on changes keeps the app from triggering its own check_run events over and over
+        await octokit.rest.checks.update({ owner, repo, check_run_id: existing.id, status: 'completed', conclusion, output })
+    }
+}
@@ -0,0 +1,95 @@
+import type { Context, Logger } from 'probot'
+
+const actionsAppSlug = 'github-actions' // Slug of the GitHub App that reports the check runs of GitHub Actions
+
+/**
+ * The head commit whose failed checks are re-run.
+ */
+export interface RetryTarget {
+    owner: string
+    repo: string
+    /** The head commit of the pull request. */
+    headSha: string
+}
+
+/**
+ * Re-runs the failed required checks of a pull request, up to a number of attempts per check on the head commit.
+ * The attempts are counted from the check runs with the same name on the head commit, so no state is kept between
+ * evaluations. GitHub Actions re-runs only the failed jobs of the workflow run; other apps are asked to re-run the
+ * whole check suite. Once the re-run completes, its check events trigger another evaluation.
+ * @param octokit The authenticated Octokit instance.
+ * @param log The logger.
+ * @param target The head commit.
+ * @param failed The names of the failed required checks.
+ * @param attempts The maximum number of re-runs per check.
+ * @returns The names of the checks that are re-run.
+ */
+export async function retryFailedChecks(
+    octokit: Context['octokit'],
+    log: Logger,
+    target: RetryTarget,
+    failed: string[],
+    attempts: number
+): Promise<string[]> {
+    const { owner, repo, headSha } = target
+    const suites = new Map<number, { app: string | undefined; checks: string[] }>() // Check suites to re-run, by ID
+
+    for (const check_name of failed) {
+        const checkRuns = await octokit.paginate(octokit.rest.checks.listForRef, {
+            owner,
+            repo,
+            ref: headSha,
+            check_name,
+            filter: 'all',
+            per_page: 100
+        })
+
+        // Failed commit statuses can't be re-run
+        if (checkRuns.length === 0) {
+            continue
+        }
+
+        // Every run after the first one is a re-run
+        if (checkRuns.length > attempts) {
+            log.info(`Check ${check_name} has already been re-run ${checkRuns.length - 1} times, not re-running it again.`)
+            continue
+        }
+
+        const latest = checkRuns.reduce((a, b) => (b.id > a.id ? b : a))
+
+        if (!latest.check_suite) {
+            continue
+        }
+
+        const suite = suites.get(latest.check_suite.id) ?? { app: latest.app?.slug, checks: [] }
+        suite.checks.push(check_name)
+        suites.set(latest.check_suite.id, suite)
+    }
+
+    const retried: string[] = []
+
+    for (const [check_suite_id, suite] of suites) {
+        try {
+            if (suite.app === actionsAppSlug) {
+                const workflowRun = (await octokit.rest.actions.listWorkflowRunsForRepo({ owner, repo, check_suite_id, per_page: 1 })).data
+                    .workflow_runs[0]
+
+                if (!workflowRun) {
+                    continue
+                }
+
+                await octokit.rest.actions.reRunWorkflowFailedJobs({ owner, repo, run_id: workflowRun.id })
+            } else {
+                await octokit.rest.checks.rerequestSuite({ owner, repo, check_suite_id })
+            }
+
+            log.info(`Re-running ${suite.checks.join(', ')} of check suite ${check_suite_id}.`)
+            retried.push(...suite.checks)
+        } catch (e: unknown) {
+            // A check that can't be re-run fails the evaluation as usual
+            log.error(e, `Failed to re-run check suite ${check_suite_id}.`)
+        }
+    }
+
+    return retried
+}
@@ -0,0 +1,55 @@
+import type { DependencyRule } from './config.ts'
+import type { DependencyUpdate } from './metadata.ts'
+
+/**
+ * A rule that matched a dependency update.
+ */
+export interface RuleMatch {
+    /** The matching rule. */
+    rule: DependencyRule
+    /** The position of the rule in the configuration. */
+    index: number
+}
+
+/**
+ * Tests a name against a glob pattern, where `*` matches any sequence of characters and `?` any single character.
+ * Matching is case-insensitive since some ecosystems (e.g. NuGet) treat package names that way.
+ * @param pattern The glob pattern.
+ * @param name The name to test.
+ * @returns Whether the name matches the pattern.
+ */
+export function matchGlob(pattern: string, name: string): boolean {
+    const source = pattern
+        .split('')
+        .map(c => (c === '*' ? '.*' : c === '?' ? '.' : c.replace(/[.+^${}()|[\]\\/]/g, '\\$&')))
+        .join('')
+    return new RegExp(`^${source}$`, 'i').test(name)
+}
+
+/**
+ * Finds the first rule matching a dependency update.
+ * @param rules The ordered rules from the configuration.
+ * @param update The dependency update.
+ * @param ecosystem The package ecosystem of the pull request, if known.
+ * @returns The first matching rule, or undefined if no rule matches.
+ */
+export function findMatchingRule(rules: DependencyRule[], update: DependencyUpdate, ecosystem: string | undefined): RuleMatch | undefined {
+    const index = rules.findIndex(
+        r =>
+            (r.dependency === undefined || matchGlob(r.dependency, update.name)) &&
+            (r.ecosystems === undefined || (ecosystem !== undefined && r.ecosystems.includes(ecosystem))) &&
+            (r.update_types === undefined || r.update_types.includes(update.updateType ?? 'major'))
+    )
+    return index === -1 ? undefined : { rule: rules[index], index }
+}
+
+/**
+ * Describes a rule for logs and reports.
+ * @param match The matching rule.
+ * @returns E.g. "rule #1 (deny react* major)".
+ */
+export function describeRule(match: RuleMatch): string {
+    const { rule, index } = match
+    const criteria = [rule.dependency, rule.ecosystems?.join('/'), rule.update_types?.join('/')].filter(c => c !== undefined)
+    return `rule #${index + 1} (${[rule.action, ...criteria].join(' ')})`
+}
@@ -0,0 +1,262 @@
+import type { Context } from 'probot'
+import type { RequiredCheck } from './checks.ts'
+import type { MergeMethod } from './config.ts'
+
+/**
+ * A rule that applies to a branch, as returned by the branch rules API together with the ruleset it belongs to.
+ */
+export type BranchRule = Awaited<ReturnType<Context['octokit']['rest']['repos']['getBranchRules']>>['data'][number]
+
+type PullRequestRuleParameters = Extract<BranchRule, { type: 'pull_request' }>['parameters']
+
+/**
+ * The pull request the branch rules of its base branch are evaluated for.
+ */
+export interface BranchRuleTarget {
+    owner: string
+    repo: string
+    pull_number: number
+    /** The head commit of the pull request. */
+    headSha: string
+    /** The number of users other than the app who have approved the pull request. */
+    approvals: number
+}
+
+/**
+ * The outcome of evaluating the branch rules of the base branch of a pull request.
+ */
+export interface BranchRuleEvaluation {
+    /** Whether the app can merge the pull request once the pending rules and required checks are satisfied. */
+    mergeable: boolean
+    /** A human-readable explanation if the app cannot merge the pull request. */
+    reason?: string
+    /** The merge methods compatible with the branch rules, in order of preference. */
+    methods: MergeMethod[]
+    /** The status checks required by the branch rules. */
+    requiredChecks: RequiredCheck[]
+    /** Whether pull requests must be added to the merge queue instead of being merged directly. */
+    mergeQueue: boolean
+    /** Rules the app cannot satisfy, e.g. restricted updates. */
+    unsatisfied: string[]
+    /** Rules that are not satisfied yet but may be later, e.g. a missing approval. */
+    pending: string[]
+    /** Rules the app doesn't need to satisfy since it may bypass their ruleset. */
+    bypassed: string[]
+}
+
+const reviewThreadsQuery = `
+    query ($owner: String!, $repo: String!, $number: Int!) {
+        repository(owner: $owner, name: $repo) {
+            pullRequest(number: $number) {
+                reviewThreads(first: 100) {
+                    nodes {
+                        isResolved
+                    }
+                }
+            }
+        }
+    }
+`
+
+const reviewDecisionQuery = `
+    query ($owner: String!, $repo: String!, $number: Int!) {
+        repository(owner: $owner, name: $repo) {
+            pullRequest(number: $number) {
+                reviewDecision
+            }
+        }
+    }
+`
+
+/**
+ * Evaluates the branch rules of the base branch of a pull request, so that the app knows up front whether it can merge
+ * the pull request instead of having the merge rejected. Rules of a ruleset the app may bypass don't need to be satisfied.
+ * Rules that only apply to pushes (e.g. file path restrictions) were already enforced when the bot pushed, and are ignored.
+ * @param octokit The authenticated Octokit instance.
+ * @param target The pull request.
+ * @param rules The rules of the base branch.
+ * @param methods The merge methods allowed by the repository, in order of preference.
+ * @returns The branch rule evaluation.
+ */
+export async function evaluateBranchRules(
+    octokit: Context['octokit'],
+    target: BranchRuleTarget,
+    rules: BranchRule[],
+    methods: MergeMethod[]
+): Promise<BranchRuleEvaluation> {
+    const { owner, repo } = target
+    const requiredChecks = new Map<string, RequiredCheck>() // Required checks by context and app, without duplicates
+    const unsatisfied: string[] = []
+    const pending: string[] = []
+    const bypassed: string[] = []
+    const queued: string[] = []
+    const bypassable = new Map<number, Promise<boolean>>() // Whether the app may bypass a ruleset, by ruleset ID
+    let compatible = methods
+
+    // Records a rule that blocks the merge, unless the app may bypass the ruleset it belongs to
+    const block = async (rule: BranchRule, blocking: string[], description: string) => {
+        const ruleset_id = rule.ruleset_id
+
+        if (ruleset_id !== undefined && !bypassable.has(ruleset_id)) {
+            bypassable.set(
+                ruleset_id,
+                octokit.rest.repos
+                    .getRepoRuleset({ owner, repo, ruleset_id, includes_parents: true })
+                    .then(r => r.data.current_user_can_bypass !== undefined && r.data.current_user_can_bypass !== 'never')
+            )
+        }
+
+        if (ruleset_id !== undefined && (await bypassable.get(ruleset_id))) {
+            bypassed.push(description)
+        } else {
+            blocking.push(description)
+        }
+    }
+
+    for (const rule of rules) {
+        switch (rule.type) {
+            case 'required_status_checks':
+                for (const { context, integration_id } of rule.parameters?.required_status_checks ?? []) {
+                    requiredChecks.set(`${context}:${integration_id ?? ''}`, integration_id === undefined ? { context } : { context, integration_id })
+                }
+
+                break
+            case 'required_linear_history':
+                // Merge commits are not linear
+                compatible = compatible.filter(m => m !== 'merge')
+                break
+            case 'required_signatures':
+                // GitHub signs the merge and squash commits it creates, but not the commits it rebases
+                compatible = compatible.filter(m => m !== 'rebase')
+                break
+            case 'pull_request': {
+                const allowed = rule.parameters?.allowed_merge_methods
+
+                if (allowed) {
+                    compatible = compatible.filter(m => allowed.includes(m))
+                }
+
+                for (const requirement of await evaluateReviewRequirements(octokit, target, rule.parameters)) {
+                    await block(rule, pending, requirement)
+                }
+
+                break
+            }
+            case 'required_deployments':
+                for (const environment of rule.parameters?.required_deployment_environments ?? []) {
+                    if (!(await isDeployed(octokit, target, environment))) {
+                        await block(rule, pending, `Requires a successful deployment to ${environment}`)
+                    }
+                }
+
+                break
+            case 'merge_queue':
+                await block(rule, queued, 'Requires pull requests to be merged through the merge queue')
+                break
+            case 'update':
+                await block(rule, unsatisfied, 'Only allows bypass actors to update the branch')
+                break
+        }
+    }
+
+    const mergeQueue = queued.length > 0
+
+    // The merge queue merges with its own merge method
+    if (compatible.length === 0 && !mergeQueue) {
+        unsatisfied.push('No merge method allowed by the repository complies with the branch rules')
+    }
+
+    const evaluation = { methods: compatible, requiredChecks: [...requiredChecks.values()], mergeQueue, unsatisfied, pending, bypassed }
+
+    if (unsatisfied.length > 0) {
+        return { mergeable: false, reason: 'Some branch rules cannot be satisfied by the app', ...evaluation }
+    }
+
+    return pending.length > 0
+        ? { mergeable: true, reason: 'Some branch rules are not yet satisfied', ...evaluation }
+        : { mergeable: true, ...evaluation }
+}
+
+/**
+ * Evaluates the review requirements of a `pull_request` rule, counting the app's own approval.
+ * A code owner review can only be given by a human. Whether a human approval is from an owner of the changed files is
+ * left to GitHub's review decision, which is only `APPROVED` once every review requirement is met.
+ * @param octokit The authenticated Octokit instance.
+ * @param target The pull request.
+ * @param parameters The parameters of the rule.
+ * @returns The requirements that are not satisfied yet.
+ */
+async function evaluateReviewRequirements(
+    octokit: Context['octokit'],
+    target: BranchRuleTarget,
+    parameters: PullRequestRuleParameters
+): Promise<string[]> {
+    const { owner, repo, pull_number, approvals } = target
+    const requirements: string[] = []
+
+    if (!parameters) {
+        return requirements
+    }
+
+    if (parameters.required_approving_review_count > approvals + 1) {
+        requirements.push(`Requires ${parameters.required_approving_review_count} approving reviews, including the app's`)
+    }
+
+    if (parameters.require_code_owner_review && (approvals === 0 || !(await isReviewApproved(octokit, target)))) {
+        requirements.push('Requires an approving review from a code owner')
+    }
+
+    if (parameters.required_review_thread_resolution) {
+        const threads = (
+            await octokit.graphql<{ repository: { pullRequest: { reviewThreads: { nodes: { isResolved: boolean }[] } } } }>(reviewThreadsQuery, {
+                owner,
+                repo,
+                number: pull_number
+            })
+        ).repository.pullRequest.reviewThreads.nodes
+        const unresolved = threads.filter(t => !t.isResolved).length
+
+        if (unresolved > 0) {
+            requirements.push(`Requires all conversations to be resolved (${unresolved} unresolved)`)
+        }
+    }
+
+    return requirements
+}
+
+/**
+ * Checks whether GitHub considers the review requirements of a pull request met, including the code owner reviews.
+ * @param octokit The authenticated Octokit instance.
+ * @param target The pull request.
+ * @returns Whether the review decision is `APPROVED`.
+ */
+async function isReviewApproved(octokit: Context['octokit'], target: BranchRuleTarget): Promise<boolean> {
+    const { owner, repo, pull_number } = target
+    const decision = (
+        await octokit.graphql<{ repository: { pullRequest: { reviewDecision: string | null } } }>(reviewDecisionQuery, {
+            owner,
+            repo,
+            number: pull_number
+        })
+    ).repository.pullRequest.reviewDecision
+    return decision === 'APPROVED'
+}
+
+/**
+ * Checks whether the head commit of a pull request was successfully deployed to an environment.
+ * @param octokit The authenticated Octokit instance.
+ * @param target The pull request.
+ * @param environment The environment name.
+ * @returns Whether the latest deployment of the head commit to the environment succeeded.
+ */
+async function isDeployed(octokit: Context['octokit'], target: BranchRuleTarget, environment: string): Promise<boolean> {
+    const { owner, repo, headSha } = target
+    const deployment = (await octokit.rest.repos.listDeployments({ owner, repo, sha: headSha, environment, per_page: 1 })).data[0]
+
+    if (!deployment) {
+        return false
+    }
+
+    const status = (await octokit.rest.repos.listDeploymentStatuses({ owner, repo, deployment_id: deployment.id, per_page: 1 })).data[0]
+    return status?.state === 'success'
+}
@@ -0,0 +1,105 @@
+import { timingSafeEqual } from 'node:crypto'
+import { createServer, type IncomingMessage, type RequestListener, type Server, type ServerResponse } from 'node:http'
+import { createNodeMiddleware, Probot } from 'probot'
+import { appFn } from './app.ts'
+import { loadCredentials, selectSecretsProvider } from './secrets.ts'
+import { sweepPullRequests } from './sweep.ts'
+
+export const sweepPath = '/sweep' // Path of the sweep endpoint of the HTTP server
+
+/**
+ * Creates the Probot instance with the credentials of the secrets provider selected by the environment.
+ * For GitHub Enterprise Server, `GHE_HOST` (and `GHE_PROTOCOL`, `https` by default) point it at the server's API.
+ * The app itself is loaded by the entry points, e.g. through the Node middleware.
+ * @param env The environment variables.
+ * @returns The Probot instance.
+ * @throws SecretsError If the secrets provider is misconfigured or a secret is missing.
+ */
+export async function loadProbot(env: NodeJS.ProcessEnv = process.env): Promise<Probot> {
+    const credentials = await loadCredentials(selectSecretsProvider(env))
+
+    return new Probot({
+        appId: credentials.appId,
+        privateKey: credentials.privateKey,
+        secret: credentials.webhookSecret,
+        baseUrl: readBaseUrl(env)
+    })
+}
+
+/**
+ * Creates a Node HTTP request listener that receives webhooks at Probot's webhook path and sweeps the pull requests
+ * on `POST /sweep`. The sweep endpoint requires the token as a bearer token, and is disabled without one.
+ * @param probot The Probot instance.
+ * @param sweepToken The token that authorizes sweeps, if any.
+ * @returns The request listener.
+ */
+export async function createRequestListener(probot: Probot, sweepToken?: string): Promise<RequestListener> {
+    const middleware = await createNodeMiddleware(appFn, { probot })
+
+    return (request: IncomingMessage, response: ServerResponse) => {
+        if (request.method === 'POST' && request.url === sweepPath && sweepToken) {
+            if (!isAuthorizedSweep(request.headers.authorization, sweepToken)) {
+                response.writeHead(401).end()
+                return
+            }
+
+            sweepPullRequests(probot).then(
+                summary => response.writeHead(200, { 'content-type': 'application/json' }).end(JSON.stringify(summary)),
+                (e: unknown) => {
+                    probot.log.error(e, 'Sweep failed.')
+                    response.writeHead(500).end()
+                }
+            )
+            return
+        }
+
+        middleware(request, response, () => {
+            response.writeHead(404).end()
+        })
+    }
+}
+
+/**
+ * Starts a plain Node HTTP server for the app.
+ * @param probot The Probot instance.
+ * @param port The port to listen on.
+ * @param sweepToken The token that authorizes sweeps, if any.
+ * @returns The listening server.
+ */
+export async function startServer(probot: Probot, port: number, sweepToken?: string): Promise<Server> {
+    const server = createServer(await createRequestListener(probot, sweepToken))
+    await new Promise<void>(resolve => server.listen(port, resolve))
+    probot.log.info(`Listening on port ${port}.`)
+    return server
+}
+
+/**
+ * Reads the port of the HTTP server from the `PORT` environment variable.
+ * @param env The environment variables.
+ * @returns The port, 3000 by default.
+ */
+export function readPort(env: NodeJS.ProcessEnv = process.env): number {
+    return Number(env.PORT ?? 3000)
+}
+
+/**
+ * Reads the base URL of the GitHub API from the environment variables Probot uses for GitHub Enterprise Server.
+ * @param env The environment variables.
+ * @returns The base URL, or undefined for github.com.
+ */
+export function readBaseUrl(env: NodeJS.ProcessEnv = process.env): string | undefined {
+    return env.GHE_HOST ? `${env.GHE_PROTOCOL ?? 'https'}://${env.GHE_HOST}/api/v3` : undefined
+}
+
+/**
+ * Checks whether a request may start a sweep, i.e. whether it carries the sweep token as a bearer token.
+ * The token is compared in constant time, so that it can't be guessed from response times.
+ * @param authorization The `Authorization` header of the request.
+ * @param token The token that authorizes sweeps.
+ * @returns Whether the request is authorized.
+ */
+export function isAuthorizedSweep(authorization: string | undefined, token: string): boolean {
+    const expected = Buffer.from(`Bearer ${token}`)
+    const actual = Buffer.from(authorization ?? '')
+    return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
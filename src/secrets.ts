@@ -0,0 +1,147 @@
+import { readFile } from 'node:fs/promises'
+import { join } from 'node:path'
+
+export const secretNames = ['APP_ID', 'PRIVATE_KEY', 'WEBHOOK_SECRET'] as const
+export const secretsProviders = ['env', 'file', 'gcp'] as const
+
+export type SecretName = (typeof secretNames)[number]
+export type SecretsProviderName = (typeof secretsProviders)[number]
+
+/**
+ * A source of the app's secrets, e.g. environment variables or a secret manager.
+ */
+export interface SecretsProvider {
+    /** The name of the provider, for error messages. */
+    name: SecretsProviderName
+    /**
+     * Reads a secret.
+     * @param secret The name of the secret.
+     * @returns The value of the secret, or undefined if it doesn't exist.
+     */
+    get(secret: SecretName): Promise<string | undefined>
+}
+
+/**
+ * The credentials the app authenticates with and verifies webhooks with.
+ */
+export interface AppCredentials {
+    appId: string
+    privateKey: string
+    webhookSecret: string
+}
+
+/**
+ * Thrown when the secrets provider is misconfigured or a secret is missing.
+ */
+export class SecretsError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'SecretsError'
+    }
+}
+
+/**
+ * Creates a provider that reads secrets from environment variables, e.g. `APP_ID`.
+ * @param env The environment variables.
+ * @returns The secrets provider.
+ */
+export function envSecretsProvider(env: NodeJS.ProcessEnv = process.env): SecretsProvider {
+    return { name: 'env', get: async secret => env[secret] }
+}
+
+/**
+ * Creates a provider that reads secrets from files named after them, e.g. Docker or Kubernetes secrets.
+ * @param directory The directory of the files, e.g. `/run/secrets`.
+ * @returns The secrets provider.
+ */
+export function fileSecretsProvider(directory: string): SecretsProvider {
+    return {
+        name: 'file',
+        get: async secret => {
+            try {
+                return (await readFile(join(directory, secret), 'utf8')).trim()
+            } catch (e: unknown) {
+                if (e instanceof Error && 'code' in e && e.code === 'ENOENT') {
+                    return undefined
+                }
+
+                throw e
+            }
+        }
+    }
+}
+
+/**
+ * Creates a provider that reads the latest versions of secrets from Google Secret Manager.
+ * The client library is only loaded when a secret is read, so other runtimes don't need it.
+ * @param project The ID or number of the Google Cloud project.
+ * @param prefix The prefix of the secret names, e.g. `DEPBOT_` for `DEPBOT_APP_ID`.
+ * @returns The secrets provider.
+ */
+export function gcpSecretsProvider(project: string, prefix = ''): SecretsProvider {
+    let client: Promise<import('@google-cloud/secret-manager').SecretManagerServiceClient> | undefined
+
+    return {
+        name: 'gcp',
+        get: async secret => {
+            client ??= import('@google-cloud/secret-manager').then(m => new m.SecretManagerServiceClient())
+
+            try {
+                const [version] = await (await client).accessSecretVersion({ name: `projects/${project}/secrets/${prefix}${secret}/versions/latest` })
+                return version.payload?.data?.toString()
+            } catch (e: unknown) {
+                // gRPC status NOT_FOUND
+                if (e instanceof Error && 'code' in e && e.code === 5) {
+                    return undefined
+                }
+
+                throw e
+            }
+        }
+    }
+}
+
+/**
+ * Selects the secrets provider configured by environment variables:
+ * `STEWARD_SECRETS_PROVIDER` is `env` (default), `file` or `gcp`. The `file` provider reads from
+ * `STEWARD_SECRETS_DIR` (`/run/secrets` by default); the `gcp` provider reads from the project
+ * `STEWARD_GCP_PROJECT`, prefixing the secret names with `STEWARD_GCP_SECRET_PREFIX`.
+ * @param env The environment variables.
+ * @returns The secrets provider.
+ * @throws SecretsError If the configuration is invalid.
+ */
+export function selectSecretsProvider(env: NodeJS.ProcessEnv = process.env): SecretsProvider {
+    const name = env.STEWARD_SECRETS_PROVIDER ?? 'env'
+
+    switch (name) {
+        case 'env':
+            return envSecretsProvider(env)
+        case 'file':
+            return fileSecretsProvider(env.STEWARD_SECRETS_DIR ?? '/run/secrets')
+        case 'gcp':
+            if (!env.STEWARD_GCP_PROJECT) {
+                throw new SecretsError('STEWARD_GCP_PROJECT must be set for the gcp secrets provider.')
+            }
+
+            return gcpSecretsProvider(env.STEWARD_GCP_PROJECT, env.STEWARD_GCP_SECRET_PREFIX)
+        default:
+            throw new SecretsError(`STEWARD_SECRETS_PROVIDER must be one of ${secretsProviders.map(p => `\`${p}\``).join(', ')}, but is \`${name}\`.`)
+    }
+}
+
+/**
+ * Reads the app's credentials from a secrets provider.
+ * @param provider The secrets provider.
+ * @returns The credentials.
+ * @throws SecretsError If a secret is missing.
+ */
+export async function loadCredentials(provider: SecretsProvider): Promise<AppCredentials> {
+    const [appId, privateKey, webhookSecret] = await Promise.all(secretNames.map(s => provider.get(s)))
+    const missing = secretNames.filter((_, i) => ![appId, privateKey, webhookSecret][i])
+
+    if (!appId || !privateKey || !webhookSecret) {
+        throw new SecretsError(`Missing secrets ${missing.join(', ')} in the ${provider.name} secrets provider.`)
+    }
+
+    return { appId, privateKey, webhookSecret }
+}
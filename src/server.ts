@@ -0,0 +1,4 @@
+// Entry point for a plain Node HTTP server, listening on PORT (3000 by default)
+import { loadProbot, readPort, startServer } from './runtime.ts'
+
+await startServer(await loadProbot(), readPort(), process.env.STEWARD_SWEEP_TOKEN)
@@ -0,0 +1,33 @@
+// Entry point for running the app on its own, e.g. in a Docker container: an HTTP server that also sweeps
+// the pull requests every STEWARD_SWEEP_INTERVAL minutes, and shuts down gracefully on SIGTERM and SIGINT
+import { loadProbot, readPort, startServer } from './runtime.ts'
+import { sweepPullRequests } from './sweep.ts'
+
+const probot = await loadProbot()
+const server = await startServer(probot, readPort(), process.env.STEWARD_SWEEP_TOKEN)
+const interval = Number(process.env.STEWARD_SWEEP_INTERVAL ?? 0) // Minutes between sweeps; no sweeps when 0
+let sweeping: Promise<unknown> | undefined // The running sweep, awaited on shutdown
+
+const timer =
+    interval > 0
+        ? setInterval(
+              () => {
+                  // Skip a sweep while the previous one is still running
+                  sweeping ??= sweepPullRequests(probot)
+                      .catch((e: unknown) => probot.log.error(e, 'Sweep failed.'))
+                      .finally(() => {
+                          sweeping = undefined
+                      })
+              },
+              interval * 60 * 1000
+          )
+        : undefined
+
+for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+    process.once(signal, () => {
+        probot.log.info(`Received ${signal}, shutting down.`)
+        clearInterval(timer)
+        server.close()
+        Promise.resolve(sweeping).finally(() => process.exit(0))
+    })
+}
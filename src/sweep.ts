@@ -0,0 +1,148 @@
+import type { Probot } from 'probot'
+import { evaluatePullRequest } from './app.ts'
+import { ConfigError, loadConfig } from './config.ts'
+import { identifyBot, resolveIdentities } from './identity.ts'
+import type { Evaluation } from './report.ts'
+
+const minimumRateLimit = 100 // Remaining requests of an installation below which it is left for the next sweep
+
+/**
+ * The outcome of a sweep over all installations.
+ */
+export interface SweepSummary {
+    /** The number of installations swept. */
+    installations: number
+    /** The number of repositories swept. */
+    repositories: number
+    /** The number of evaluated pull requests by outcome. */
+    outcomes: Record<Evaluation['outcome'], number>
+    /** The repositories that could not be swept completely, as `owner/repo`. */
+    failed: string[]
+    /** The installations that could not be swept, e.g. because they are suspended, by ID. */
+    failedInstallations: number[]
+    /** The installations whose sweep was cut short by their rate limit, by ID. */
+    rateLimited: number[]
+}
+
+/**
+ * Evaluates the open pull requests of the dependency bots in all repositories of all installations, just like the webhooks do.
+ * This catches pull requests whose events were missed, e.g. during an outage, or that were deferred by a cooldown or
+ * merge schedule and receive no further events. An error in one pull request, repository or installation doesn't
+ * prevent the others from being swept. An installation whose rate limit runs low is left for the next sweep.
+ * @param app The Probot application instance, which authenticates as the app and its installations.
+ * @returns The summary of the sweep.
+ */
+export async function sweepPullRequests(app: Probot): Promise<SweepSummary> {
+    const appOctokit = await app.auth()
+    const installations = await appOctokit.paginate(appOctokit.rest.apps.listInstallations, { per_page: 100 })
+    const summary: SweepSummary = {
+        installations: installations.length,
+        repositories: 0,
+        outcomes: { merged: 0, auto_merge: 0, queued: 0, deferred: 0, dry_run: 0, skipped: 0, failed: 0 },
+        failed: [],
+        failedInstallations: [],
+        rateLimited: []
+    }
+
+    for (const installation of installations) {
+        try {
+            const octokit = await app.auth(installation.id)
+            const context = { octokit, log: app.log, payload: { installation: { id: installation.id } } }
+            const identities = await resolveIdentities(octokit, installation.id)
+            const repositories = await octokit.paginate(octokit.rest.apps.listReposAccessibleToInstallation, { per_page: 100 })
+
+            for (const repository of repositories) {
+                const owner = repository.owner.login
+                const repo = repository.name
+
+                // Stop before the rate limit runs out, so that the webhooks of the installation keep working
+                if ((await octokit.rest.rateLimit.get()).data.resources.core.remaining < minimumRateLimit) {
+                    app.log.warn(`Installation ${installation.id}: Rate limit is running low, leaving the remaining repositories for the next sweep.`)
+                    summary.rateLimited.push(installation.id)
+                    break
+                }
+
+                summary.repositories++
+
+                try {
+                    const config = await loadConfig(octokit, owner, repo)
+
+                    if (!config.enabled) {
+                        continue
+                    }
+
+                    const prs = await octokit.paginate(octokit.rest.pulls.list, { owner, repo, state: 'open', per_page: 100 })
+
+                    // Only the pull requests of the bots the repository trusts are evaluated
+                    const botPrs = prs.filter(pr => {
+                        const bot = identifyBot(identities, pr.user, pr.head.ref)
+                        return bot !== undefined && config.bots.includes(bot.name)
+                    })
+
+                    let complete = true // Whether every pull request of the repository was evaluated
+
+                    for (const pr of botPrs) {
+                        try {
+                            const evaluation = await evaluatePullRequest(context, owner, repo, pr.number)
+                            app.log.info(`${owner}/${repo}#${pr.number}: ${evaluation.outcome} (${evaluation.reason}).`)
+                            summary.outcomes[evaluation.outcome]++
+                        } catch (e: unknown) {
+                            if (isRateLimitError(e)) {
+                                throw e
+                            }
+
+                            app.log.error(e, `${owner}/${repo}#${pr.number}: Evaluation failed.`)
+                            summary.outcomes.failed++
+                            complete = false
+                        }
+                    }
+
+                    if (!complete) {
+                        summary.failed.push(`${owner}/${repo}`)
+                    }
+                } catch (e: unknown) {
+                    if (isRateLimitError(e)) {
+                        throw e
+                    }
+
+                    // An invalid configuration is reported on the pull requests by the webhooks
+                    if (!(e instanceof ConfigError)) {
+                        app.log.error(e, `Failed to sweep ${owner}/${repo}.`)
+                        summary.failed.push(`${owner}/${repo}`)
+                    }
+                }
+            }
+        } catch (e: unknown) {
+            if (!isRateLimitError(e)) {
+                app.log.error(e, `Failed to sweep installation ${installation.id}.`)
+                summary.failedInstallations.push(installation.id)
+                continue
+            }
+
+            app.log.warn(`Installation ${installation.id}: Rate limit exceeded, leaving the remaining repositories for the next sweep.`)
+            summary.rateLimited.push(installation.id)
+        }
+    }
+
+    app.log.info(
+        `Swept ${summary.repositories} repositories of ${summary.installations} installations: ${Object.entries(summary.outcomes)
+            .map(([outcome, count]) => `${count} ${outcome}`)
+            .join(', ')}.`
+    )
+
+    return summary
+}
+
+/**
+ * Checks whether an error was caused by an exhausted rate limit, which Octokit's throttling gave up retrying.
+ * @param e The error.
+ * @returns Whether the error is a rate limit error.
+ */
+function isRateLimitError(e: unknown): boolean {
+    if (!(e instanceof Error && 'status' in e)) {
+        return false
+    }
+
+    const headers = 'response' in e ? (e.response as { headers?: Record<string, string | undefined> } | undefined)?.headers : undefined
+    return e.status === 429 || (e.status === 403 && headers?.['x-ratelimit-remaining'] === '0')
+}
@@ -0,0 +1,73 @@
+import type { Context, Logger } from 'probot'
+import type { BotAdapter } from './bots.ts'
+import type { UpdateBranchMode } from './config.ts'
+
+/**
+ * The pull request whose branch is brought up to date.
+ */
+export interface UpdateTarget {
+    owner: string
+    repo: string
+    pull_number: number
+    /** The head commit of the pull request. */
+    headSha: string
+    /** The body of the pull request, which some bots read rebase requests from. */
+    body?: string | null
+}
+
+/**
+ * Brings the branch of a pull request up to date with its base branch if GitHub wouldn't merge it otherwise,
+ * i.e. if the branch rules require up-to-date branches (`behind`) or the branch has conflicts (`dirty`).
+ * `update` merges the base branch into the pull request branch, which only works without conflicts, so conflicts
+ * are always left to the bot. `rebase` asks the bot to rebase the branch, or updates it if the bot can't be asked.
+ * The new head commit triggers another evaluation once its checks have completed.
+ * @param octokit The authenticated Octokit instance.
+ * @param log The logger.
+ * @param target The pull request.
+ * @param mergeableState The mergeable state of the pull request.
+ * @param mode How the branch is brought up to date.
+ * @param bot The bot that created the pull request.
+ * @returns A human-readable explanation if the branch is not up to date, or undefined if it is.
+ */
+export async function updateStaleBranch(
+    octokit: Context['octokit'],
+    log: Logger,
+    target: UpdateTarget,
+    mergeableState: string,
+    mode: UpdateBranchMode,
+    bot: BotAdapter
+): Promise<string | undefined> {
+    const { owner, repo, pull_number, headSha } = target
+
+    if (mergeableState !== 'behind' && mergeableState !== 'dirty') {
+        return undefined
+    }
+
+    const state = mergeableState === 'behind' ? 'Pull request branch is behind the base branch' : 'Pull request branch has conflicts'
+
+    if (mode === 'none') {
+        return state
+    }
+
+    if ((mode === 'update' || !bot.rebase) && mergeableState === 'behind') {
+        try {
+            await octokit.rest.pulls.updateBranch({ owner, repo, pull_number, expected_head_sha: headSha })
+            log.info(`Updating the branch of pull request #${pull_number} with the base branch.`)
+            return `${state}, updating it`
+        } catch (e: unknown) {
+            // A concurrent update changed the head commit already
+            if (e instanceof Error && 'status' in e && e.status === 422) {
+                return `${state}, it is already being updated`
+            }
+
+            throw e
+        }
+    }
+
+    if (!bot.rebase || !(await bot.rebase(octokit, target))) {
+        return state
+    }
+
+    log.info(`Asked ${bot.title} to rebase pull request #${pull_number}.`)
+    return `${state}, asked ${bot.title} to rebase it`
+}
@@ -0,0 +1,61 @@
+import type { ScheduleConfig, Weekday } from './config.ts'
+
+/**
+ * Whether the app may merge at a given time.
+ */
+export interface WindowDecision {
+    /** Whether a merge window is open and no freeze period applies. */
+    open: boolean
+    /** A human-readable explanation if merging has to wait. */
+    reason?: string
+}
+
+/**
+ * Checks whether the app may merge at a given time, i.e. whether one of the merge windows is open and no freeze
+ * period applies. Without merge windows the app may merge at any time outside the freeze periods.
+ * Days and times are those of the schedule's time zone.
+ * @param config The schedule configuration.
+ * @param now The current time.
+ * @returns The window decision.
+ */
+export function evaluateSchedule(config: ScheduleConfig, now = new Date()): WindowDecision {
+    const local = zonedTime(now, config.timezone)
+    const freeze = config.freezes.find(f => f.from <= local.date && local.date <= f.to)
+
+    if (freeze) {
+        return { open: false, reason: `Merges are frozen until ${freeze.to}${freeze.reason ? ` (${freeze.reason})` : ''}` }
+    }
+
+    if (config.windows.length === 0 || config.windows.some(w => w.days.includes(local.weekday) && w.start <= local.time && local.time < w.end)) {
+        return { open: true }
+    }
+
+    const windows = config.windows.map(w => `${w.days.join(', ')} ${w.start}–${w.end}`).join('; ')
+    return { open: false, reason: `Outside the merge windows (${windows} ${config.timezone})` }
+}
+
+/**
+ * Converts a point in time to the weekday, date and time of a time zone.
+ * @param date The point in time.
+ * @param timeZone The IANA time zone, e.g. `Europe/Berlin`.
+ * @returns The weekday, the date as `YYYY-MM-DD` and the time as `HH:MM`, all in the time zone.
+ */
+function zonedTime(date: Date, timeZone: string): { weekday: Weekday; date: string; time: string } {
+    const format = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        weekday: 'short',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23'
+    })
+    const parts = Object.fromEntries(format.formatToParts(date).map(p => [p.type, p.value]))
+
+    return {
+        weekday: parts.weekday.toLowerCase() as Weekday,
+        date: `${parts.year}-${parts.month}-${parts.day}`,
+        time: `${parts.hour}:${parts.minute}`
+    }
+}
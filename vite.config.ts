@@ -13,7 +13,19 @@ export default defineConfig({
             },
             appPath: 'src/index.ts',
             outputFormat: 'es'
-        })
+        }),
+        {
+            // Builds the other entry points besides src/index.ts (Google Cloud Functions), which the plugin builds alone
+            name: 'entry-points',
+            config: () => ({
+                build: {
+                    ssr: true,
+                    rollupOptions: {
+                        input: ['src/server.ts', 'src/standalone.ts', 'src/lambda.ts']
+                    }
+                }
+            })
+        }
     ],
     test: {
         globals: true,